@@ -2,7 +2,10 @@
 const nextConfig = {
   experimental: {
     serverActions: {
-      bodySizeLimit: '10mb',
+      // Next.js has one limit for all server actions. Besides the upload,
+      // validation and import send the parsed rows of a file of up to 10MB,
+      // which is larger as JSON, so the default 1MB can't apply to them either.
+      bodySizeLimit: '50mb',
     },
   },
 };
@@ -4,12 +4,25 @@ import { FileParserService } from "@/lib/file-parser";
 import { getContentfulService } from "@/lib/contentful";
 import { fetchContentTypes as fetchContentTypesDelivery, fetchContentType as fetchContentTypeDelivery } from "@/lib/contentful-delivery";
 import { createAIValidationService } from "@/lib/ai-validation";
+import { getMappingMemory } from "@/lib/mapping-memory";
+import { getTokenBudgetTracker } from "@/lib/token-budget";
+import { getImportRunStore, type ImportRun } from "@/lib/import-runs";
 import type {
   ParsedFileResult,
   ValidationResult,
   ImportConfig,
   ImportResult,
+  ImportRunSummary,
+  RollbackResult,
   ContentfulContentType,
+  ContentfulLocale,
+  CoercionRules,
+  FieldMapping,
+  UsageReport,
+  AICallEstimate,
+  TranslationRequest,
+  TranslationResult,
+  TakenValue,
 } from "@/types";
 
 /**
@@ -68,7 +81,9 @@ export async function getContentTypes(): Promise<{
  */
 export async function validateContent(
   parsedFile: ParsedFileResult,
-  contentTypeId: string
+  contentTypeId: string,
+  coercionRules?: Partial<CoercionRules>,
+  options?: { validateRows?: boolean; locales?: string[] }
 ): Promise<{
   success: boolean;
   data?: ValidationResult;
@@ -83,7 +98,12 @@ export async function validateContent(
     }
 
     const aiService = createAIValidationService();
-    const validation = await aiService.validateContent(parsedFile, contentType as ContentfulContentType);
+    const validation = await aiService.validateContent(
+      parsedFile,
+      contentType as ContentfulContentType,
+      coercionRules,
+      options
+    );
 
     return { success: true, data: validation };
   } catch (error) {
@@ -94,6 +114,116 @@ export async function validateContent(
   }
 }
 
+/**
+ * Estimate the tokens and cost of the AI call validation would make
+ */
+export async function estimateValidationCost(
+  parsedFile: ParsedFileResult,
+  contentTypeId: string,
+  coercionRules?: Partial<CoercionRules>,
+  options?: { locales?: string[] }
+): Promise<{
+  success: boolean;
+  data?: AICallEstimate;
+  error?: string;
+}> {
+  try {
+    const contentType = await fetchContentTypeDelivery(contentTypeId);
+
+    if (!contentType) {
+      return { success: false, error: "Content type not found" };
+    }
+
+    const aiService = createAIValidationService();
+    const estimate = aiService.previewMappingCall(
+      parsedFile,
+      contentType as ContentfulContentType,
+      coercionRules,
+      options
+    );
+
+    return { success: true, data: estimate };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to estimate validation cost",
+    };
+  }
+}
+
+/**
+ * Translate field values into other locales with AI
+ */
+export async function translateContent(request: TranslationRequest): Promise<{
+  success: boolean;
+  data?: TranslationResult;
+  error?: string;
+}> {
+  try {
+    const aiService = createAIValidationService();
+    const result = await aiService.translateFields(request);
+    return { success: true, data: result };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to translate content",
+    };
+  }
+}
+
+/**
+ * Remember confirmed field mappings for this content type and header layout
+ */
+export async function rememberFieldMappings(
+  contentTypeId: string,
+  headers: string[],
+  mappings: FieldMapping[]
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    getMappingMemory().remember(contentTypeId, headers, mappings);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save mappings",
+    };
+  }
+}
+
+/**
+ * Values of unique fields that entries in Contentful already hold, for
+ * validation to report before anything is imported. `values` lists the
+ * values the file gives each field; with a match field, each taken value
+ * also says which entry an upsert row would have to match to keep it.
+ */
+export async function findTakenValues(
+  contentTypeId: string,
+  values: Record<string, string[]>,
+  matchField?: string
+): Promise<{
+  success: boolean;
+  data?: TakenValue[];
+  error?: string;
+}> {
+  try {
+    const contentful = getContentfulService();
+    const taken: TakenValue[] = [];
+    for (const [fieldId, fieldValues] of Object.entries(values)) {
+      if (fieldValues.length === 0) continue;
+      taken.push(...(await contentful.findTakenValues(contentTypeId, fieldId, fieldValues, matchField)));
+    }
+    return { success: true, data: taken };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to look up existing values",
+    };
+  }
+}
+
 /**
  * Import content to Contentful
  */
@@ -106,8 +236,13 @@ export async function importContent(
   error?: string;
 }> {
   try {
-    const contentful = getContentfulService();
-    const result = await contentful.importContent(parsedFile.rows, config);
+    const run = getImportRunStore().create({
+      fileName: parsedFile.fileName,
+      config,
+      rows: parsedFile.rows,
+      mediaBundleId: parsedFile.media?.bundleId,
+    });
+    const result = await runImport(run);
 
     return { success: true, data: result };
   } catch (error) {
@@ -118,12 +253,186 @@ export async function importContent(
   }
 }
 
+/**
+ * Check an import against Contentful without writing anything: every row's
+ * entry is built and checked as the import would, and the result predicts
+ * which entries would be created, updated, or fail
+ */
+export async function dryRunImport(
+  parsedFile: ParsedFileResult,
+  config: ImportConfig
+): Promise<{
+  success: boolean;
+  data?: ImportResult;
+  error?: string;
+}> {
+  try {
+    const contentful = getContentfulService();
+    const result = await contentful.importContent(parsedFile.rows, config, {
+      mediaBundleId: parsedFile.media?.bundleId,
+      dryRun: true,
+    });
+
+    return { success: true, data: result };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to check import",
+    };
+  }
+}
+
+/**
+ * Resume an interrupted import, or retry the failed rows of a finished one.
+ * Rows already written are skipped.
+ */
+export async function resumeImport(runId: string): Promise<{
+  success: boolean;
+  data?: ImportResult;
+  error?: string;
+}> {
+  try {
+    const store = getImportRunStore();
+    const run = store.get(runId);
+
+    if (!run) {
+      throw new Error("This import is no longer available");
+    }
+    if (store.isActive(runId)) {
+      throw new Error("This import is still running");
+    }
+    if (run.status === "completed") {
+      throw new Error("This import has already completed");
+    }
+    if (run.status === "rolled-back" || run.rollbackStartedAt) {
+      throw new Error("This import has been rolled back; import the file again instead");
+    }
+    if (!store.hasMedia(run)) {
+      throw new Error("The media files of this import are no longer available; upload the ZIP again");
+    }
+
+    const result = await runImport(run);
+    return { success: true, data: result };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to resume import",
+    };
+  }
+}
+
+// Entries reverted per rollbackImport call, so the client can show progress between calls
+const ROLLBACK_CHUNK_SIZE = 25;
+
+/**
+ * Roll back the entries of an import run, starting at `offset`. Call again
+ * with the returned `processed` count until it reaches `total`.
+ */
+export async function rollbackImport(
+  runId: string,
+  offset = 0
+): Promise<{
+  success: boolean;
+  data?: RollbackResult;
+  error?: string;
+}> {
+  try {
+    const store = getImportRunStore();
+    const run = store.get(runId);
+
+    if (!run) {
+      throw new Error("This import is no longer available");
+    }
+    if (store.isActive(runId)) {
+      throw new Error("This import is still running");
+    }
+    if (run.status === "rolled-back") {
+      throw new Error("This import has already been rolled back");
+    }
+
+    // Targets already undone stay in the list, so offsets hold between calls
+    const targets = store.rollbackTargets(runId);
+    const chunk = targets.slice(offset, offset + ROLLBACK_CHUNK_SIZE);
+    const { reverted, ...outcome } = await getContentfulService().rollbackEntries(
+      chunk.filter((target) => !target.rolledBack)
+    );
+    store.recordRollback(
+      runId,
+      chunk.filter((target) => reverted.includes(target.entryId))
+    );
+    const processed = offset + chunk.length;
+
+    // Entries that couldn't be reverted can be retried until none are left
+    if (processed >= targets.length && store.rollbackTargets(runId).every((t) => t.rolledBack)) {
+      store.setStatus(runId, "rolled-back");
+    }
+
+    return {
+      success: true,
+      data: { runId, total: targets.length, processed, ...outcome },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to roll back import",
+    };
+  }
+}
+
+/**
+ * Recent import runs, newest first
+ */
+export async function listImportRuns(): Promise<{
+  success: boolean;
+  data?: ImportRunSummary[];
+  error?: string;
+}> {
+  try {
+    return { success: true, data: getImportRunStore().list() };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load imports",
+    };
+  }
+}
+
+// Import a run's rows, checkpointing each row so the run can be resumed
+async function runImport(run: ImportRun): Promise<ImportResult> {
+  const store = getImportRunStore();
+  const contentful = getContentfulService();
+
+  store.setStatus(run.id, "running");
+  const stopHeartbeat = store.keepAlive(run.id);
+  try {
+    const result = await contentful.importContent(run.rows, run.config, {
+      mediaBundleId: run.mediaBundleId,
+      checkpoint: {
+        previous: store.checkpoints(run.id),
+        record: (checkpoint) => store.record(run.id, checkpoint),
+      },
+    });
+
+    store.setStatus(run.id, result.success ? "completed" : "failed");
+    return {
+      ...result,
+      runId: run.id,
+      rollbackTargets: store.rollbackTargets(run.id).filter((t) => !t.rolledBack).length,
+    };
+  } catch (error) {
+    store.setStatus(run.id, "failed");
+    throw error;
+  } finally {
+    stopHeartbeat();
+  }
+}
+
 /**
  * Get available locales
  */
 export async function getLocales(): Promise<{
   success: boolean;
-  data?: { code: string; name: string; default: boolean }[];
+  data?: ContentfulLocale[];
   error?: string;
 }> {
   try {
@@ -161,3 +470,21 @@ export async function testConnection(): Promise<{
     };
   }
 }
+
+/**
+ * Get AI usage and remaining budget
+ */
+export async function getUsageReport(): Promise<{
+  success: boolean;
+  data?: UsageReport;
+  error?: string;
+}> {
+  try {
+    return { success: true, data: getTokenBudgetTracker().getReport() };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load AI usage",
+    };
+  }
+}
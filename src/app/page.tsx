@@ -1,5 +1,5 @@
 import { ContentImporter } from "@/components/content-importer";
-import { FileSpreadsheet, Eye } from "lucide-react";
+import { FileSpreadsheet, Eye, BarChart3 } from "lucide-react";
 import Link from "next/link";
 
 export default function Home() {
@@ -19,13 +19,22 @@ export default function Home() {
               </p>
             </div>
           </div>
-          <Link
-            href="/content"
-            className="flex items-center gap-2 px-4 py-2 text-sm bg-secondary rounded-md hover:bg-secondary/80 transition-colors"
-          >
-            <Eye className="h-4 w-4" />
-            View Content
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/usage"
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-secondary rounded-md hover:bg-secondary/80 transition-colors"
+            >
+              <BarChart3 className="h-4 w-4" />
+              AI Usage
+            </Link>
+            <Link
+              href="/content"
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-secondary rounded-md hover:bg-secondary/80 transition-colors"
+            >
+              <Eye className="h-4 w-4" />
+              View Content
+            </Link>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,175 @@
+import { getTokenBudgetTracker } from "@/lib/token-budget";
+import { BudgetWarning, formatCost } from "@/components/usage-panel";
+import { FileSpreadsheet, RefreshCw } from "lucide-react";
+import Link from "next/link";
+import type { UsageBreakdown, UsageTotals } from "@/types";
+
+export const revalidate = 0; // Always read the latest ledger
+
+function getUsageData() {
+  try {
+    return { report: getTokenBudgetTracker().getReport(), error: null };
+  } catch (error) {
+    return {
+      report: null,
+      error: error instanceof Error ? error.message : "Failed to read the usage ledger",
+    };
+  }
+}
+
+function BudgetCard({
+  title,
+  usage,
+  maxTokens,
+  maxCost,
+}: {
+  title: string;
+  usage: UsageTotals;
+  maxTokens: number;
+  maxCost: number;
+}) {
+  const percent = Math.min(
+    100,
+    Math.max(usage.totalTokens / maxTokens, usage.estimatedCost / maxCost) * 100
+  );
+
+  return (
+    <div className="p-4 rounded-lg border bg-background space-y-2">
+      <p className="text-sm text-muted-foreground">{title}</p>
+      <p className="text-2xl font-bold">{formatCost(usage.estimatedCost)}</p>
+      <p className="text-sm text-muted-foreground">
+        {usage.calls} calls ({usage.cachedCalls} cached) · {usage.totalTokens.toLocaleString()} /{" "}
+        {maxTokens.toLocaleString()} tokens · limit {formatCost(maxCost)}
+      </p>
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div className="h-full bg-primary" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function BreakdownTable({ title, label, rows }: { title: string; label: string; rows: UsageBreakdown[] }) {
+  return (
+    <div className="rounded-lg border overflow-hidden bg-background">
+      <div className="bg-muted px-4 py-2 border-b">
+        <p className="font-medium text-sm">{title}</p>
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-muted-foreground text-center">No AI calls yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-muted/50">
+              <th className="px-4 py-2 text-left font-medium">{label}</th>
+              <th className="px-4 py-2 text-right font-medium">Calls</th>
+              <th className="px-4 py-2 text-right font-medium">Cached</th>
+              <th className="px-4 py-2 text-right font-medium">Prompt</th>
+              <th className="px-4 py-2 text-right font-medium">Completion</th>
+              <th className="px-4 py-2 text-right font-medium">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t">
+                <td className="px-4 py-2 font-mono text-xs">{row.key}</td>
+                <td className="px-4 py-2 text-right">{row.calls}</td>
+                <td className="px-4 py-2 text-right">{row.cachedCalls}</td>
+                <td className="px-4 py-2 text-right">{row.promptTokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{row.completionTokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{formatCost(row.estimatedCost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const { report, error } = getUsageData();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-background to-muted/30">
+      {/* Header */}
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-16 items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary">
+              <FileSpreadsheet className="h-5 w-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">AI Content Automator</h1>
+              <p className="text-xs text-muted-foreground">AI Usage</p>
+            </div>
+          </Link>
+
+          <div className="flex items-center gap-4">
+            <Link
+              href="/usage"
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-secondary rounded-md hover:bg-secondary/80 transition-colors"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Link>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+            >
+              Back to Importer
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="container py-8">
+        <div className="mx-auto max-w-4xl space-y-6">
+          {error || !report ? (
+            <div className="p-8 rounded-lg border border-destructive/50 bg-destructive/10 text-center">
+              <p className="text-lg font-medium text-destructive mb-2">
+                Unable to load AI usage
+              </p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : (
+            <>
+              <BudgetWarning report={report} />
+
+              <div className="grid grid-cols-2 gap-4">
+                <BudgetCard
+                  title="Last 24 hours"
+                  usage={report.daily}
+                  maxTokens={report.budget.maxTokens}
+                  maxCost={report.budget.maxCost}
+                />
+                <BudgetCard
+                  title="Last 30 days"
+                  usage={report.monthly}
+                  maxTokens={report.budget.monthlyMaxTokens}
+                  maxCost={report.budget.monthlyMaxCost}
+                />
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Remaining before the next limit:{" "}
+                <span className="font-medium text-foreground">
+                  {report.remaining.tokens.toLocaleString()} tokens
+                </span>{" "}
+                and{" "}
+                <span className="font-medium text-foreground">
+                  {formatCost(report.remaining.cost)}
+                </span>
+                . Costs are estimates based on published per-model pricing.
+              </p>
+
+              <BreakdownTable title="By task (30 days)" label="Task" rows={report.byTask} />
+              <BreakdownTable title="By model (30 days)" label="Provider / model" rows={report.byModel} />
+              <BreakdownTable title="By day" label="Date (UTC)" rows={report.byDay} />
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,11 +1,19 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { FileUpload } from "@/components/file-upload";
 import { DataPreview } from "@/components/data-preview";
-import { FieldMappingEditor } from "@/components/field-mapping";
+import {
+  FieldMappingEditor,
+  applyDefaultReferences,
+  applyMediaMappings,
+} from "@/components/field-mapping";
+import { DefaultValuesEditor } from "@/components/default-values";
+import { TranslationPanel } from "@/components/translation-panel";
 import { ProcessingSteps } from "@/components/processing-steps";
 import { ImportResults } from "@/components/import-results";
+import { UsagePanel } from "@/components/usage-panel";
+import { UnfinishedImports } from "@/components/unfinished-imports";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -14,19 +22,53 @@ import { Loader2, Settings } from "lucide-react";
 import {
   parseFile,
   getContentTypes,
+  getLocales,
   validateContent,
+  estimateValidationCost,
   importContent,
+  dryRunImport,
+  resumeImport,
+  rollbackImport,
+  rememberFieldMappings,
+  findTakenValues,
 } from "@/app/actions";
+import { DEFAULT_COERCION_RULES } from "@/lib/value-coercion";
+import { validateRows, summarizeValidationErrors, uniqueFieldValues } from "@/lib/row-validation";
+import { resolveDefaultValues } from "@/lib/default-values";
+import { checkLocaleCoverage } from "@/lib/locale-columns";
+import { translatableFields } from "@/lib/translation";
 import type {
   ParsedFileResult,
   ValidationResult,
   ImportResult,
+  RollbackResult,
   ContentfulContentType,
+  ContentfulField,
+  ContentfulLocale,
   FieldMapping,
+  FieldTranslations,
   ProcessingStatus,
   ImportConfig,
+  ImportMode,
+  CoercionRules,
+  MappingTier,
+  AICallEstimate,
 } from "@/types";
 
+// How the mapping was produced, shown when the AI budget forced a cheaper tier
+const MAPPING_TIER_LABELS: Record<Exclude<MappingTier, "primary">, string> = {
+  economy: "A cheaper AI model is used to stay within budget",
+  reduced: "A cheaper AI model and fewer sample values are used to stay within budget",
+  fallback: "Columns are matched by name only; AI mapping is not used",
+};
+
+// Wait for edits to settle before checking every row again
+const REVALIDATE_DELAY_MS = 400;
+
+// Comma-separated text input <-> list of words
+const toList = (text: string) =>
+  text.split(",").map((s) => s.trim()).filter((s) => s !== "");
+
 export function ContentImporter() {
   const { toast } = useToast();
 
@@ -39,13 +81,69 @@ export function ContentImporter() {
   const [contentTypes, setContentTypes] = useState<ContentfulContentType[]>([]);
   const [selectedContentType, setSelectedContentType] = useState<string>("");
   const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [rowProgress, setRowProgress] = useState<{ validated: number; total: number } | null>(null);
+  const [revalidating, setRevalidating] = useState(false);
+  // Mappings and rules the current row errors were computed with
+  const validatedWith = useRef<{
+    mappings: FieldMapping[];
+    rules: CoercionRules;
+    matchField?: string;
+  } | null>(null);
+  // Why existing entries couldn't be checked for values of unique fields
+  const [takenCheckError, setTakenCheckError] = useState<string | null>(null);
+  const [usageRefresh, setUsageRefresh] = useState(0);
+  const [costEstimate, setCostEstimate] = useState<AICallEstimate | null>(null);
   const [fieldMappings, setFieldMappings] = useState<FieldMapping[]>([]);
+  const [defaultInputs, setDefaultInputs] = useState<Record<string, string>>({});
+  const [translations, setTranslations] = useState<FieldTranslations[]>([]);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+  const [rollback, setRollback] = useState<RollbackResult | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
 
   // Configuration
   const [locale, setLocale] = useState("en-US");
+  const [locales, setLocales] = useState<ContentfulLocale[]>([]);
+  const localeCodes = useMemo(() => locales.map((l) => l.code), [locales]);
+  const optionalLocales = useMemo(
+    () => locales.filter((l) => l.optional).map((l) => l.code),
+    [locales]
+  );
   const [publishImmediately, setPublishImmediately] = useState(false);
-  const [dryRun, setDryRun] = useState(true); // Demo mode - simulates import
+  const [importMode, setImportMode] = useState<ImportMode>("create");
+  const [matchField, setMatchField] = useState("");
+  // An upsert row may keep the unique values of the entry it updates
+  const upsertMatchField = importMode === "upsert" && matchField ? matchField : undefined;
+  const [rememberMappings, setRememberMappings] = useState(true);
+  const [ruleText, setRuleText] = useState({
+    dateFormats: DEFAULT_COERCION_RULES.dateFormats.join(", "),
+    listSeparators: DEFAULT_COERCION_RULES.listSeparators.join(""),
+    truthyValues: DEFAULT_COERCION_RULES.truthyValues.join(", "),
+    falsyValues: DEFAULT_COERCION_RULES.falsyValues.join(", "),
+  });
+  const coercionRules = useMemo<CoercionRules>(
+    () => ({
+      dateFormats: toList(ruleText.dateFormats),
+      listSeparators: ruleText.listSeparators.split("").filter((c) => c.trim() !== ""),
+      truthyValues: toList(ruleText.truthyValues),
+      falsyValues: toList(ruleText.falsyValues),
+    }),
+    [ruleText]
+  );
+  const [dryRun, setDryRun] = useState(true); // Checks the import without writing
+
+  // Fields no column maps to can be filled with a constant value
+  const unmappedFields = useMemo(
+    () =>
+      (contentTypes.find((ct) => ct.id === selectedContentType)?.fields || []).filter(
+        (f) => !fieldMappings.some((m) => m.targetField === f.id)
+      ),
+    [contentTypes, selectedContentType, fieldMappings]
+  );
+  const defaults = useMemo(
+    () => resolveDefaultValues(defaultInputs, unmappedFields, coercionRules),
+    [defaultInputs, unmappedFields, coercionRules]
+  );
 
   // Handle file upload
   const handleFileSelect = useCallback(
@@ -74,6 +172,16 @@ export function ContentImporter() {
         }
 
         setContentTypes(typesResult.data);
+
+        // Locales are optional: without them the import uses the selected locale only
+        const localesResult = await getLocales();
+        if (localesResult.success && localesResult.data) {
+          setLocales(localesResult.data);
+          const defaultLocale = localesResult.data.find((l) => l.default);
+          if (defaultLocale) {
+            setLocale(defaultLocale.code);
+          }
+        }
         setProgress(50);
         setStatus("mapping");
 
@@ -94,6 +202,41 @@ export function ContentImporter() {
     [toast]
   );
 
+  // Preview the AI call before the user starts validation
+  useEffect(() => {
+    setCostEstimate(null);
+    if (!parsedFile || !selectedContentType || validation) return;
+
+    let cancelled = false;
+    estimateValidationCost(parsedFile, selectedContentType, coercionRules, {
+      locales: localeCodes,
+    }).then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setCostEstimate(result.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedFile, selectedContentType, coercionRules, localeCodes, validation]);
+
+  // Values of unique fields that entries in Contentful already hold
+  const lookUpTakenValues = useCallback(
+    async (mappings: FieldMapping[], targetFields: ContentfulField[], matchFieldId?: string) => {
+      if (!parsedFile) return [];
+      const values = uniqueFieldValues(parsedFile.rows, mappings, targetFields);
+      if (Object.keys(values).length === 0) {
+        setTakenCheckError(null);
+        return [];
+      }
+
+      const result = await findTakenValues(selectedContentType, values, matchFieldId);
+      setTakenCheckError(result.success ? null : result.error || "Lookup failed");
+      return result.data || [];
+    },
+    [parsedFile, selectedContentType]
+  );
+
   // Handle content type selection and validation
   const handleValidate = useCallback(async () => {
     if (!parsedFile || !selectedContentType) return;
@@ -103,96 +246,274 @@ export function ContentImporter() {
     setError(null);
 
     try {
-      const result = await validateContent(parsedFile, selectedContentType);
+      // Rows are validated here in chunks so progress can be shown
+      const result = await validateContent(parsedFile, selectedContentType, coercionRules, {
+        validateRows: false,
+        locales: localeCodes,
+      });
+      setUsageRefresh((n) => n + 1);
 
       if (!result.success || !result.data) {
         throw new Error(result.error || "Validation failed");
       }
 
-      setValidation(result.data);
-      setFieldMappings(result.data.mappedFields);
+      const targetFields =
+        contentTypes.find((ct) => ct.id === selectedContentType)?.fields || [];
+      const mappings = applyMediaMappings(
+        applyDefaultReferences(result.data.mappedFields, targetFields, contentTypes),
+        targetFields,
+        parsedFile.media?.files || []
+      );
+
+      const takenValues = await lookUpTakenValues(mappings, targetFields, upsertMatchField);
+      const errors = await validateRows(parsedFile.rows, mappings, targetFields, {
+        rules: coercionRules,
+        optionalLocales,
+        mediaFiles: parsedFile.media?.files,
+        takenValues,
+        matchField: upsertMatchField,
+        onProgress: (validated, total) => {
+          setRowProgress({ validated, total });
+          setProgress(60 + Math.round((validated / total) * 20));
+        },
+      });
+
+      setValidation({
+        ...result.data,
+        isValid: errors.length === 0,
+        errors,
+        summary: summarizeValidationErrors(errors),
+        validatedRows: parsedFile.rows.length,
+      });
+      validatedWith.current = { mappings, rules: coercionRules, matchField: upsertMatchField };
+      setFieldMappings(mappings);
+      setRowProgress(null);
       setProgress(80);
       setStatus("mapping");
 
-      if (result.data.warnings.length > 0) {
+      if (errors.length > 0) {
+        toast({
+          title: "Validation errors",
+          description: `${errors.length} errors found across ${parsedFile.rows.length} rows. Fix them in your file or adjust the mappings.`,
+          variant: "destructive",
+        });
+      } else if (result.data.warnings.length > 0) {
         toast({
           title: "Validation warnings",
           description: `${result.data.warnings.length} warnings found. Please review the field mappings.`,
         });
       }
     } catch (err) {
+      setRowProgress(null);
       setError(err instanceof Error ? err.message : "Validation failed");
       setStatus("error");
     }
-  }, [parsedFile, selectedContentType, toast]);
+  }, [parsedFile, selectedContentType, contentTypes, coercionRules, localeCodes, optionalLocales, lookUpTakenValues, upsertMatchField, toast]);
+
+  // Row errors follow the mappings, their transforms, the coercion rules and
+  // the upsert match field, so changing any of them after validation checks
+  // the rows again
+  useEffect(() => {
+    const validated = validatedWith.current;
+    if (
+      !parsedFile ||
+      !validation ||
+      status !== "mapping" ||
+      (validated?.mappings === fieldMappings &&
+        validated.rules === coercionRules &&
+        validated.matchField === upsertMatchField)
+    ) {
+      setRevalidating(false);
+      return;
+    }
+
+    let cancelled = false;
+    setRevalidating(true);
+    const timer = setTimeout(async () => {
+      const targetFields =
+        contentTypes.find((ct) => ct.id === selectedContentType)?.fields || [];
+      const takenValues = await lookUpTakenValues(fieldMappings, targetFields, upsertMatchField);
+      if (cancelled) return;
+      const errors = await validateRows(parsedFile.rows, fieldMappings, targetFields, {
+        rules: coercionRules,
+        optionalLocales,
+        mediaFiles: parsedFile.media?.files,
+        takenValues,
+        matchField: upsertMatchField,
+      });
+      if (cancelled) return;
+
+      validatedWith.current = { mappings: fieldMappings, rules: coercionRules, matchField: upsertMatchField };
+      setValidation((current) =>
+        current && {
+          ...current,
+          isValid: errors.length === 0,
+          errors,
+          summary: summarizeValidationErrors(errors),
+          validatedRows: parsedFile.rows.length,
+        }
+      );
+      setRevalidating(false);
+    }, REVALIDATE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parsedFile, validation, status, fieldMappings, coercionRules, upsertMatchField, contentTypes, selectedContentType, optionalLocales, lookUpTakenValues]);
 
   // Handle import
-  const handleImport = useCallback(async () => {
+  const handleImport = useCallback(async (asDryRun: boolean) => {
     if (!parsedFile || !selectedContentType || fieldMappings.length === 0) return;
 
     setStatus("importing");
     setProgress(85);
     setError(null);
 
-    // Dry run mode - simulate import for demo
-    if (dryRun) {
-      await new Promise((resolve) => setTimeout(resolve, 1500)); // Simulate delay
-      
-      const simulatedResult: ImportResult = {
-        success: true,
-        totalProcessed: parsedFile.rows.length,
-        created: parsedFile.rows.length,
-        updated: 0,
-        failed: 0,
-        entries: parsedFile.rows.map((_, index) => ({
-          row: index + 1,
-          entryId: `simulated-${index + 1}`,
-          contentType: selectedContentType,
-          action: "created" as const,
-          status: publishImmediately ? "published" as const : "draft" as const,
-        })),
-        errors: [],
-      };
-
-      setImportResult(simulatedResult);
-      setProgress(100);
-      setStatus("complete");
-
-      toast({
-        title: "🎭 Demo Import Complete",
-        description: `Simulated creating ${simulatedResult.created} entries (dry run mode)`,
-      });
-      return;
-    }
-
     const config: ImportConfig = {
       contentTypeId: selectedContentType,
       locale,
       publishImmediately,
       fieldMappings,
+      defaultValues: defaults.values,
+      translations,
+      mode: importMode,
+      matchField: importMode === "upsert" ? matchField : undefined,
+      coercionRules,
     };
 
     try {
-      const result = await importContent(parsedFile, config);
+      const result = asDryRun
+        ? await dryRunImport(parsedFile, config)
+        : await importContent(parsedFile, config);
 
       if (!result.success || !result.data) {
         throw new Error(result.error || "Import failed");
       }
 
       setImportResult(result.data);
+      setRollback(null);
       setProgress(100);
       setStatus("complete");
 
+      if (asDryRun) {
+        toast({
+          title: result.data.success ? "Dry run passed" : "Dry run found problems",
+          description: `Would create ${result.data.created}, update ${result.data.updated} entries, ${result.data.failed} would fail${
+            result.data.warnings?.length ? `; ${result.data.warnings.length} problems would block publishing` : ""
+          }`,
+          variant: result.data.success ? "default" : "destructive",
+        });
+        return;
+      }
+
+      // Mappings used for a real import are reused automatically for the next
+      // file with these headers; a dry run doesn't confirm them
+      let rememberWarning = "";
+      if (rememberMappings) {
+        const remembered = await rememberFieldMappings(
+          selectedContentType,
+          parsedFile.headers,
+          fieldMappings
+        );
+        if (!remembered.success) {
+          // Only one toast shows at a time, so this goes with the import's
+          rememberWarning = `. The mappings could not be remembered: ${remembered.error}`;
+        }
+      }
+
       toast({
         title: result.data.success ? "Import successful" : "Import completed with errors",
-        description: `Created ${result.data.created} entries, ${result.data.failed} failed`,
+        description: `Created ${result.data.created}, updated ${result.data.updated} entries, ${result.data.failed} failed${rememberWarning}`,
         variant: result.data.success ? "default" : "destructive",
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : "Import failed");
       setStatus("error");
     }
-  }, [parsedFile, selectedContentType, fieldMappings, locale, publishImmediately, dryRun, toast]);
+  }, [parsedFile, selectedContentType, fieldMappings, defaults, translations, locale, publishImmediately, importMode, matchField, coercionRules, rememberMappings, toast]);
+
+  // Resume an interrupted run, or retry the failed rows of the last one
+  const handleResume = useCallback(
+    async (runId: string) => {
+      setResumingId(runId);
+      setRollback(null);
+      setStatus("importing");
+      setProgress(85);
+      setError(null);
+
+      try {
+        const result = await resumeImport(runId);
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Import failed");
+        }
+
+        setImportResult(result.data);
+        setProgress(100);
+        setStatus("complete");
+
+        toast({
+          title: result.data.success ? "Import resumed successfully" : "Import resumed with errors",
+          description: `${result.data.resumedRows || 0} rows were already written; ${result.data.failed} failed`,
+          variant: result.data.success ? "default" : "destructive",
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Import failed");
+        setStatus("error");
+      } finally {
+        setResumingId(null);
+      }
+    },
+    [toast]
+  );
+
+  // Roll back an import chunk by chunk, so progress shows between server calls;
+  // a rollback that stopped partway continues where it stopped
+  const handleRollback = useCallback(
+    async (runId: string) => {
+      setRollingBack(true);
+      let done: RollbackResult | null =
+        rollback?.runId === runId && rollback.processed < rollback.total ? rollback : null;
+
+      try {
+        while (!done || done.processed < done.total) {
+          const result = await rollbackImport(runId, done?.processed ?? 0);
+          if (!result.success || !result.data) {
+            throw new Error(result.error || "Rollback failed");
+          }
+
+          const chunk: RollbackResult = result.data;
+          done = done
+            ? {
+                ...chunk,
+                deleted: done.deleted + chunk.deleted,
+                restored: done.restored + chunk.restored,
+                issues: [...done.issues, ...chunk.issues],
+              }
+            : chunk;
+          setRollback(done);
+        }
+
+        toast({
+          title: done.issues.length === 0 ? "Import rolled back" : "Import partly rolled back",
+          description: `Deleted ${done.deleted}, restored ${done.restored} entries${
+            done.issues.length > 0 ? `, ${done.issues.length} could not be reverted` : ""
+          }`,
+          variant: done.issues.length === 0 ? "default" : "destructive",
+        });
+      } catch (err) {
+        toast({
+          title: "Rollback failed",
+          description: err instanceof Error ? err.message : "Rollback failed",
+          variant: "destructive",
+        });
+      } finally {
+        setRollingBack(false);
+      }
+    },
+    [rollback, toast]
+  );
 
   // Reset everything
   const handleReset = useCallback(() => {
@@ -202,13 +523,33 @@ export function ContentImporter() {
     setParsedFile(null);
     setSelectedContentType("");
     setValidation(null);
+    setRowProgress(null);
     setFieldMappings([]);
+    setDefaultInputs({});
+    setTranslations([]);
     setImportResult(null);
+    setRollback(null);
+    setImportMode("create");
+    setMatchField("");
   }, []);
 
   // Get current content type
   const currentContentType = contentTypes.find((ct) => ct.id === selectedContentType);
 
+  // Required-field warnings no longer apply once a default covers the field;
+  // locale coverage follows the current mappings and import locale
+  const visibleWarnings = [
+    ...(validation?.warnings || []).filter((w) => !(w.field in defaults.values)),
+    ...(currentContentType && locales.length > 0
+      ? checkLocaleCoverage(fieldMappings, currentContentType.fields, locales, locale)
+      : []),
+  ];
+
+  // Only mapped fields can identify existing entries
+  const matchFieldOptions = (currentContentType?.fields || []).filter((f) =>
+    fieldMappings.some((m) => m.targetField === f.id)
+  );
+
   return (
     <div className="space-y-6">
       {/* Progress indicator */}
@@ -219,17 +560,41 @@ export function ContentImporter() {
         </div>
       )}
 
+      {/* Row validation progress */}
+      {status === "validating" && rowProgress && (
+        <Card>
+          <CardContent className="py-6">
+            <div className="flex items-center gap-3">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              <p className="text-sm">
+                Validated {rowProgress.validated.toLocaleString()} of{" "}
+                {rowProgress.total.toLocaleString()} rows
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Step 1: File Upload */}
       {status === "idle" && (
         <Card>
           <CardHeader>
             <CardTitle>Upload Your File</CardTitle>
             <CardDescription>
-              Drag and drop an Excel or CSV file to get started
+              Drag and drop an Excel or CSV file to get started, or a ZIP with the
+              spreadsheet and the media files it names
             </CardDescription>
           </CardHeader>
           <CardContent>
             <FileUpload onFileSelect={handleFileSelect} />
+            <div className="mt-6">
+              <UnfinishedImports
+                onResume={handleResume}
+                onRollback={handleRollback}
+                resumingId={resumingId}
+                rollingBack={rollingBack}
+              />
+            </div>
           </CardContent>
         </Card>
       )}
@@ -270,6 +635,89 @@ export function ContentImporter() {
                 ))}
               </select>
 
+              <details className="rounded-md border p-3 text-sm">
+                <summary className="cursor-pointer font-medium">Parsing rules</summary>
+                <div className="grid grid-cols-[auto,1fr] gap-3 items-center mt-3">
+                  <label htmlFor="date-formats" className="text-muted-foreground">
+                    Date formats
+                  </label>
+                  <input
+                    id="date-formats"
+                    value={ruleText.dateFormats}
+                    onChange={(e) => setRuleText({ ...ruleText, dateFormats: e.target.value })}
+                    className="p-2 rounded-md border bg-background"
+                  />
+                  <label htmlFor="list-separators" className="text-muted-foreground">
+                    List separators
+                  </label>
+                  <input
+                    id="list-separators"
+                    value={ruleText.listSeparators}
+                    onChange={(e) => setRuleText({ ...ruleText, listSeparators: e.target.value })}
+                    className="p-2 rounded-md border bg-background"
+                  />
+                  <label htmlFor="truthy-values" className="text-muted-foreground">
+                    True values
+                  </label>
+                  <input
+                    id="truthy-values"
+                    value={ruleText.truthyValues}
+                    onChange={(e) => setRuleText({ ...ruleText, truthyValues: e.target.value })}
+                    className="p-2 rounded-md border bg-background"
+                  />
+                  <label htmlFor="falsy-values" className="text-muted-foreground">
+                    False values
+                  </label>
+                  <input
+                    id="falsy-values"
+                    value={ruleText.falsyValues}
+                    onChange={(e) => setRuleText({ ...ruleText, falsyValues: e.target.value })}
+                    className="p-2 rounded-md border bg-background"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Formats use YYYY, MM, DD, HH, mm and ss. The same rules are used for validation and import.
+                </p>
+              </details>
+
+              <UsagePanel refreshKey={usageRefresh} />
+
+              {costEstimate && (
+                <div className="p-3 rounded-lg border text-sm">
+                  {!costEstimate.tier ? (
+                    <p className="text-muted-foreground">
+                      No AI call needed: every column has a remembered mapping.
+                    </p>
+                  ) : costEstimate.cached ? (
+                    <p className="text-muted-foreground">
+                      A cached AI answer for these columns will be reused at no cost ({costEstimate.model}).
+                    </p>
+                  ) : costEstimate.tier === "fallback" ? (
+                    <p className="text-amber-700">
+                      AI mapping will be skipped ({costEstimate.reason}). Columns will be matched by name.
+                    </p>
+                  ) : (
+                    <>
+                      <p>
+                        AI mapping will use about{" "}
+                        <span className="font-medium">
+                          {costEstimate.totalTokens.toLocaleString()} tokens
+                        </span>{" "}
+                        ({costEstimate.promptTokens.toLocaleString()} prompt +{" "}
+                        {costEstimate.maxCompletionTokens.toLocaleString()} max response), up to{" "}
+                        <span className="font-medium">${costEstimate.estimatedCost.toFixed(4)}</span>{" "}
+                        with {costEstimate.model}.
+                      </p>
+                      {costEstimate.tier !== "primary" && (
+                        <p className="text-amber-700 mt-1">
+                          {MAPPING_TIER_LABELS[costEstimate.tier]}.
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
               <Button
                 onClick={handleValidate}
                 disabled={!selectedContentType}
@@ -294,25 +742,145 @@ export function ContentImporter() {
               <CardDescription>
                 Review and adjust how your columns map to Contentful fields
               </CardDescription>
+              {validation.mappingTier && validation.mappingTier !== "primary" && (
+                <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                  {MAPPING_TIER_LABELS[validation.mappingTier]}
+                </p>
+              )}
             </CardHeader>
             <CardContent>
               <FieldMappingEditor
                 mappings={fieldMappings}
                 sourceHeaders={parsedFile?.headers || []}
                 targetFields={currentContentType.fields}
+                contentTypes={contentTypes}
+                sampleRows={parsedFile?.rows.slice(0, 200)}
+                coercionRules={coercionRules}
+                defaultFields={Object.keys(defaults.values)}
+                locales={localeCodes}
+                mediaFiles={parsedFile?.media?.files}
                 onMappingsChange={setFieldMappings}
               />
             </CardContent>
           </Card>
 
+          {unmappedFields.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Default Values</CardTitle>
+                <CardDescription>
+                  Set a constant value for fields without a column; it is used for every entry
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DefaultValuesEditor
+                  fields={unmappedFields}
+                  inputs={defaultInputs}
+                  errors={defaults.errors}
+                  onChange={setDefaultInputs}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {locales.length > 1 &&
+            translatableFields(currentContentType.fields, fieldMappings, locale).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Translations</CardTitle>
+                <CardDescription>
+                  Optionally translate text fields into other locales with AI and review the
+                  results before importing
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TranslationPanel
+                  rows={parsedFile?.rows || []}
+                  mappings={fieldMappings}
+                  fields={currentContentType.fields}
+                  rules={coercionRules}
+                  locales={locales}
+                  importLocale={locale}
+                  translations={translations}
+                  onTranslationsChange={setTranslations}
+                  onTranslated={() => setUsageRefresh((n) => n + 1)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <UsagePanel refreshKey={usageRefresh} />
+
           {/* Validation feedback */}
-          {(validation.warnings.length > 0 || validation.suggestions.length > 0) && (
+          {(validation.errors.length > 0 ||
+            visibleWarnings.length > 0 ||
+            validation.suggestions.length > 0 ||
+            takenCheckError) && (
             <Card>
               <CardHeader>
                 <CardTitle>Validation Feedback</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {validation.warnings.map((warning, i) => (
+                {takenCheckError && (
+                  <p className="text-sm text-yellow-800">
+                    Fields that must be unique were only checked for duplicates within the file;
+                    existing entries could not be looked up ({takenCheckError}).
+                  </p>
+                )}
+                {validation.summary && validation.summary.length > 0 && (
+                  <div className="rounded-md border border-red-200 overflow-hidden">
+                    <div className="bg-red-50 px-4 py-2 border-b border-red-200">
+                      <p className="font-medium text-sm text-red-800">
+                        {validation.errors.length} errors in {validation.validatedRows} validated rows
+                      </p>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-red-50/50">
+                          <th className="px-4 py-2 text-left font-medium">Column</th>
+                          <th className="px-4 py-2 text-left font-medium">Problem</th>
+                          <th className="px-4 py-2 text-left font-medium">Rule</th>
+                          <th className="px-4 py-2 text-right font-medium">Rows</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {validation.summary.map((group) => (
+                          <tr key={`${group.field}-${group.rule}`} className="border-t border-red-100">
+                            <td className="px-4 py-2 font-medium">{group.field}</td>
+                            <td className="px-4 py-2 text-red-800">
+                              {group.message}
+                              <p className="text-xs text-red-600 mt-1">
+                                e.g. row{group.rows.length > 1 ? "s" : ""} {group.rows.join(", ")}
+                                {group.count > group.rows.length ? ", …" : ""}
+                              </p>
+                            </td>
+                            <td className="px-4 py-2 font-mono text-xs">{group.rule}</td>
+                            <td className="px-4 py-2 text-right">{group.count}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <details className="border-t border-red-200">
+                      <summary className="px-4 py-2 text-sm cursor-pointer">All errors</summary>
+                      <div className="max-h-60 overflow-y-auto bg-red-50/50">
+                        {validation.errors.slice(0, 200).map((err, i) => (
+                          <p key={i} className="px-4 py-1 text-sm text-red-800 border-t border-red-100">
+                            {err.row !== undefined && (
+                              <span className="font-medium">Row {err.row}, {err.field}: </span>
+                            )}
+                            {err.message}
+                          </p>
+                        ))}
+                        {validation.errors.length > 200 && (
+                          <p className="px-4 py-2 text-sm text-muted-foreground bg-muted/30">
+                            Showing 200 of {validation.errors.length} errors
+                          </p>
+                        )}
+                      </div>
+                    </details>
+                  </div>
+                )}
+                {visibleWarnings.map((warning, i) => (
                   <div
                     key={i}
                     className="flex items-start gap-2 p-3 bg-yellow-50 rounded-md"
@@ -347,7 +915,7 @@ export function ContentImporter() {
                 <div>
                   <p className="font-medium">Locale</p>
                   <p className="text-sm text-muted-foreground">
-                    Content language
+                    Content language for columns without a locale suffix
                   </p>
                 </div>
                 <select
@@ -355,19 +923,78 @@ export function ContentImporter() {
                   onChange={(e) => setLocale(e.target.value)}
                   className="p-2 rounded-md border bg-background"
                 >
-                  <option value="en-US">English (US)</option>
-                  <option value="en-GB">English (UK)</option>
-                  <option value="es">Spanish</option>
-                  <option value="fr">French</option>
-                  <option value="de">German</option>
+                  {locales.length === 0 && <option value={locale}>{locale}</option>}
+                  {locales.map((l) => (
+                    <option key={l.code} value={l.code}>
+                      {l.name} ({l.code}){l.default ? " — default" : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">Import mode</p>
+                  <p className="text-sm text-muted-foreground">
+                    Update existing entries that share a key column
+                  </p>
+                </div>
+                <select
+                  value={importMode}
+                  onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                  className="p-2 rounded-md border bg-background"
+                >
+                  <option value="create">Create new entries</option>
+                  <option value="upsert">Create or update (upsert)</option>
                 </select>
               </div>
 
+              {importMode === "upsert" && (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">Match field</p>
+                    <p className="text-sm text-muted-foreground">
+                      Entries with the same value are updated
+                    </p>
+                  </div>
+                  <select
+                    value={matchField}
+                    onChange={(e) => setMatchField(e.target.value)}
+                    className="p-2 rounded-md border bg-background"
+                  >
+                    <option value="">Select a field...</option>
+                    {matchFieldOptions.map((field) => (
+                      <option key={field.id} value={field.id}>
+                        {field.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">Remember mappings</p>
+                  <p className="text-sm text-muted-foreground">
+                    After importing, reuse these mappings next time a file with the same columns is uploaded
+                  </p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={rememberMappings}
+                    onChange={(e) => setRememberMappings(e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+                </label>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="font-medium">🎭 Demo Mode (Dry Run)</p>
+                  <p className="font-medium">Dry run</p>
                   <p className="text-sm text-muted-foreground">
-                    Simulate import without creating entries
+                    Check every row against Contentful without writing anything
                   </p>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
@@ -407,15 +1034,21 @@ export function ContentImporter() {
               Cancel
             </Button>
             <Button
-              onClick={handleImport}
-              disabled={fieldMappings.length === 0 || status === "importing"}
+              onClick={() => handleImport(dryRun)}
+              disabled={
+                fieldMappings.length === 0 ||
+                Object.keys(defaults.errors).length > 0 ||
+                status === "importing" ||
+                revalidating ||
+                (importMode === "upsert" && !matchField)
+              }
               className="flex-1"
               variant={dryRun ? "secondary" : "default"}
             >
-              {status === "importing" && (
+              {(status === "importing" || revalidating) && (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               )}
-              {dryRun ? `🎭 Demo Import ${parsedFile?.totalRows} Entries` : `Import ${parsedFile?.totalRows} Entries`}
+              {dryRun ? `Check ${parsedFile?.totalRows} Entries` : `Import ${parsedFile?.totalRows} Entries`}
             </Button>
           </div>
         </>
@@ -427,7 +1060,9 @@ export function ContentImporter() {
           <CardContent className="py-12">
             <div className="flex flex-col items-center gap-4">
               <Loader2 className="h-12 w-12 animate-spin text-primary" />
-              <p className="text-lg font-medium">Importing content...</p>
+              <p className="text-lg font-medium">
+                {dryRun ? "Checking content..." : "Importing content..."}
+              </p>
               <p className="text-sm text-muted-foreground">
                 This may take a few moments
               </p>
@@ -440,10 +1075,21 @@ export function ContentImporter() {
       {importResult && status === "complete" && (
         <Card>
           <CardHeader>
-            <CardTitle>Import Results</CardTitle>
+            <CardTitle>{importResult.dryRun ? "Dry Run Results" : "Import Results"}</CardTitle>
           </CardHeader>
           <CardContent>
-            <ImportResults result={importResult} onReset={handleReset} />
+            <ImportResults
+              result={importResult}
+              onReset={handleReset}
+              onResume={handleResume}
+              onRollback={handleRollback}
+              onImport={() => {
+                setDryRun(false);
+                handleImport(false);
+              }}
+              rollback={rollback}
+              rollingBack={rollingBack}
+            />
           </CardContent>
         </Card>
       )}
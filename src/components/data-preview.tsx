@@ -15,7 +15,8 @@ export function DataPreview({ data, maxRows = 5 }: DataPreviewProps) {
     <div className="w-full overflow-hidden rounded-lg border">
       <div className="bg-muted px-4 py-2 border-b">
         <p className="text-sm font-medium">
-          Preview: {data.fileName} ({data.totalRows} rows, {data.headers.length} columns)
+          Preview: {data.fileName} ({data.totalRows} rows, {data.headers.length} columns
+          {data.media && `, ${data.media.files.length} media files`})
         </p>
       </div>
 
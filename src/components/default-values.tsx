@@ -0,0 +1,138 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { allowedValues, supportsDefaultValue } from "@/lib/default-values";
+import type { ContentfulField } from "@/types";
+
+interface DefaultValuesEditorProps {
+  // Fields without a mapped column
+  fields: ContentfulField[];
+  inputs: Record<string, string>;
+  errors: Record<string, string>;
+  onChange: (inputs: Record<string, string>) => void;
+}
+
+const inputClass = "w-full p-2 rounded-md border bg-background text-sm";
+
+function DefaultValueInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: ContentfulField;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const options = allowedValues(field);
+
+  if (field.type === "Boolean") {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">No default</option>
+        <option value="true">Yes</option>
+        <option value="false">No</option>
+      </select>
+    );
+  }
+
+  if (field.type === "Symbol" && options.length > 0) {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">No default</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  switch (field.type) {
+    case "Integer":
+    case "Number":
+      return (
+        <input
+          type="number"
+          step={field.type === "Integer" ? 1 : "any"}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      );
+    case "Date":
+      return (
+        <input
+          type="datetime-local"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      );
+    case "Text":
+    case "Object":
+      return (
+        <textarea
+          value={value}
+          rows={2}
+          placeholder={field.type === "Object" ? '{"key": "value"}' : undefined}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn(inputClass, field.type === "Object" && "font-mono")}
+        />
+      );
+    default:
+      return (
+        <input
+          value={value}
+          placeholder={placeholderFor(field, options)}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClass}
+        />
+      );
+  }
+}
+
+function placeholderFor(field: ContentfulField, options: string[]): string | undefined {
+  if (field.type === "Location") return "latitude, longitude";
+  if (field.type === "Link") return `${field.linkType || "Entry"} ID`;
+  if (field.type === "Array" && field.items?.type === "Link") {
+    return `${field.items.linkType || "Entry"} IDs, comma separated`;
+  }
+  if (field.type === "Array") {
+    return options.length > 0 ? options.join(", ") : "Comma separated values";
+  }
+  return undefined;
+}
+
+/**
+ * Constant values for fields no column maps to, applied to every entry
+ */
+export function DefaultValuesEditor({ fields, inputs, errors, onChange }: DefaultValuesEditorProps) {
+  const editable = fields.filter(supportsDefaultValue);
+  if (editable.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {editable.map((field) => (
+        <div key={field.id} className="grid grid-cols-[1fr,2fr] gap-4 items-start">
+          <div className="pt-2 text-sm">
+            <span className="font-medium">{field.name}</span>
+            {field.required && <span className="text-red-600"> *</span>}
+            <span className="text-muted-foreground"> ({field.type})</span>
+          </div>
+          <div className="space-y-1">
+            <DefaultValueInput
+              field={field}
+              value={inputs[field.id] || ""}
+              onChange={(value) => onChange({ ...inputs, [field.id]: value })}
+            />
+            {errors[field.id] && (
+              <p className="text-xs text-red-600">{errors[field.id]}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,48 +1,174 @@
 "use client";
 
 import React from "react";
-import { ArrowRight, AlertTriangle, Check } from "lucide-react";
+import { ArrowRight, AlertTriangle, Check, Plus, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { FieldMapping, ContentfulField } from "@/types";
+import { describeTransform } from "@/lib/transforms";
+import { getSourceValue, renderTemplate, templateColumns } from "@/lib/mapping-values";
+import { parseLocaleColumn } from "@/lib/locale-columns";
+import { findMediaFile, isAssetField, splitMediaValues } from "@/lib/media-files";
+import { resolveCoercionRules } from "@/lib/value-coercion";
+import { TransformEditor } from "@/components/transform-editor";
+import type {
+  FieldMapping,
+  ContentfulField,
+  ContentfulContentType,
+  ContentRow,
+  CoercionRules,
+  MediaFile,
+  ReferenceLookup,
+  TransformStep,
+} from "@/types";
 
 interface FieldMappingEditorProps {
   mappings: FieldMapping[];
   sourceHeaders: string[];
   targetFields: ContentfulField[];
+  contentTypes?: ContentfulContentType[];
+  // Rows used for the live transform preview
+  sampleRows?: ContentRow[];
+  coercionRules?: CoercionRules;
+  // Fields filled with a constant value instead of a column
+  defaultFields?: string[];
+  // Locale codes of the space, for columns such as "title (de-DE)"
+  locales?: string[];
+  // Media files of a ZIP upload; columns mapped to asset fields can name them
+  mediaFiles?: MediaFile[];
   onMappingsChange: (mappings: FieldMapping[]) => void;
 }
 
+const PREVIEW_SAMPLES = 3;
+
+// First few distinct non-empty source values of a mapping
+function mappingSamples(rows: ContentRow[], mapping: FieldMapping): ContentRow[string][] {
+  const samples: ContentRow[string][] = [];
+  for (const row of rows) {
+    const value = getSourceValue(row, mapping);
+    if (value === null || value === undefined || String(value).trim() === "") continue;
+    if (!samples.includes(value)) samples.push(value);
+    if (samples.length >= PREVIEW_SAMPLES) break;
+  }
+  return samples;
+}
+
+// Link fields (single or Array) that point at entries
+function isEntryReference(field: ContentfulField | undefined): boolean {
+  if (!field) return false;
+  if (field.type === "Link") return field.linkType === "Entry";
+  return field.type === "Array" && field.items?.type === "Link" && field.items.linkType === "Entry";
+}
+
+// Content types allowed by the field's linkContentType validation
+function allowedContentTypeIds(field: ContentfulField): string[] {
+  const validations = [...(field.validations || []), ...(field.items?.validations || [])];
+  const rule = validations.find((v) => Array.isArray(v?.linkContentType));
+  return rule ? rule.linkContentType : [];
+}
+
+function defaultReference(
+  field: ContentfulField,
+  contentTypes: ContentfulContentType[]
+): ReferenceLookup | undefined {
+  const allowed = allowedContentTypeIds(field);
+  const target =
+    contentTypes.find((ct) => allowed.includes(ct.id)) ||
+    (allowed.length === 0 ? contentTypes[0] : undefined);
+  if (!target) return undefined;
+
+  const lookupField =
+    target.fields.find((f) => ["name", "title"].includes(f.id)) ||
+    target.fields.find((f) => f.type === "Symbol");
+  return lookupField
+    ? { contentTypeId: target.id, lookupField: lookupField.id }
+    : undefined;
+}
+
+/**
+ * Fill in a reference lookup for mappings to entry Link fields that lack one
+ */
+export function applyDefaultReferences(
+  mappings: FieldMapping[],
+  targetFields: ContentfulField[],
+  contentTypes: ContentfulContentType[]
+): FieldMapping[] {
+  return mappings.map((m) => {
+    const field = targetFields.find((f) => f.id === m.targetField);
+    if (m.reference || !isEntryReference(field)) return m;
+    return { ...m, reference: defaultReference(field!, contentTypes) };
+  });
+}
+
+/**
+ * Turn on media upload for mappings to asset Link fields when the upload has
+ * media files, and off when it has none (e.g. for remembered mappings)
+ */
+export function applyMediaMappings(
+  mappings: FieldMapping[],
+  targetFields: ContentfulField[],
+  mediaFiles: MediaFile[]
+): FieldMapping[] {
+  if (mediaFiles.length === 0) {
+    return mappings.map((m) => (m.media ? { ...m, media: undefined } : m));
+  }
+  return mappings.map((m) =>
+    m.media === undefined && isAssetField(targetFields.find((f) => f.id === m.targetField))
+      ? { ...m, media: true }
+      : m
+  );
+}
+
 export function FieldMappingEditor({
   mappings,
   sourceHeaders,
   targetFields,
+  contentTypes = [],
+  sampleRows = [],
+  coercionRules,
+  defaultFields = [],
+  locales = [],
+  mediaFiles = [],
   onMappingsChange,
 }: FieldMappingEditorProps) {
-  const updateMapping = (
-    sourceField: string,
-    targetField: string
-  ) => {
-    const existing = mappings.find((m) => m.sourceField === sourceField);
-
-    if (targetField === "") {
-      // Remove mapping
-      onMappingsChange(mappings.filter((m) => m.sourceField !== sourceField));
-    } else if (existing) {
-      // Update existing
-      onMappingsChange(
-        mappings.map((m) =>
-          m.sourceField === sourceField
-            ? { ...m, targetField, confidence: 1 }
-            : m
-        )
-      );
-    } else {
-      // Add new
-      onMappingsChange([
-        ...mappings,
-        { sourceField, targetField, confidence: 1 },
-      ]);
-    }
+  const withTarget = (mapping: FieldMapping, targetField: string): FieldMapping => {
+    const field = targetFields.find((f) => f.id === targetField);
+    return {
+      ...mapping,
+      targetField,
+      confidence: 1,
+      reference: isEntryReference(field) ? defaultReference(field!, contentTypes) : undefined,
+      media: isAssetField(field) && mediaFiles.length > 0 ? true : undefined,
+    };
+  };
+
+  // Change the target of one mapping; an empty target removes it
+  const setTarget = (index: number, targetField: string) => {
+    onMappingsChange(
+      targetField === ""
+        ? mappings.filter((_, i) => i !== index)
+        : mappings.map((m, i) => (i === index ? withTarget(m, targetField) : m))
+    );
+  };
+
+  const addMapping = (sourceField: string, targetField: string, template?: string) => {
+    if (targetField === "") return;
+    const locale = template === undefined
+      ? parseLocaleColumn(sourceField, locales)?.locale
+      : undefined;
+    onMappingsChange([
+      ...mappings,
+      withTarget({ sourceField, targetField, confidence: 1, template, locale }, targetField),
+    ]);
+  };
+
+  const updateAt = (index: number, changes: Partial<FieldMapping>) => {
+    onMappingsChange(mappings.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  const updateTemplate = (index: number, template: string) => {
+    updateAt(index, {
+      template,
+      sourceField: templateColumns(template).find((c) => sourceHeaders.includes(c)) || sourceHeaders[0],
+    });
   };
 
   const getConfidenceColor = (confidence: number) => {
@@ -51,6 +177,166 @@ export function FieldMappingEditor({
     return "text-red-600";
   };
 
+  const mappedFieldIds = mappings.map((m) => m.targetField);
+  const unmappedRequired = targetFields.filter(
+    (f) => f.required && !mappedFieldIds.includes(f.id) && !defaultFields.includes(f.id)
+  );
+
+  // Fields not taken by another mapping in the same locale, plus the mapping's own field
+  const availableFields = (current?: string, locale?: string) =>
+    targetFields.filter(
+      (field) =>
+        field.id === current ||
+        !mappings.some((m) => m.targetField === field.id && m.locale === locale)
+    );
+
+  const fieldOptions = (current?: string, locale?: string) =>
+    availableFields(current, locale).map((field) => (
+      <option key={field.id} value={field.id}>
+        {field.name} ({field.type})
+        {field.required ? " *" : ""}
+      </option>
+    ));
+
+  const renderDetails = (mapping: FieldMapping, index: number) => {
+    const targetField = targetFields.find((f) => f.id === mapping.targetField);
+    const referenceContentType = contentTypes.find(
+      (ct) => ct.id === mapping.reference?.contentTypeId
+    );
+
+    if (isEntryReference(targetField)) {
+      return (
+        <div className="ml-8 flex flex-wrap items-center gap-2 p-3 bg-muted/50 rounded-md text-sm">
+          <span className="text-muted-foreground">Match values against</span>
+          <select
+            value={mapping.reference?.contentTypeId || ""}
+            onChange={(e) => {
+              const ct = contentTypes.find((c) => c.id === e.target.value);
+              const lookupField = ct?.fields.find((f) => f.type === "Symbol");
+              updateAt(index, {
+                reference: { contentTypeId: e.target.value, lookupField: lookupField?.id || "" },
+              });
+            }}
+            className="p-2 rounded-md border bg-background"
+          >
+            <option value="">Content type...</option>
+            {contentTypes
+              .filter((ct) => {
+                const allowed = allowedContentTypeIds(targetField!);
+                return allowed.length === 0 || allowed.includes(ct.id);
+              })
+              .map((ct) => (
+                <option key={ct.id} value={ct.id}>
+                  {ct.name}
+                </option>
+              ))}
+          </select>
+          <span className="text-muted-foreground">by field</span>
+          <select
+            value={mapping.reference?.lookupField || ""}
+            onChange={(e) =>
+              updateAt(index, {
+                reference: {
+                  contentTypeId: mapping.reference?.contentTypeId || "",
+                  lookupField: e.target.value,
+                } as ReferenceLookup,
+              })
+            }
+            disabled={!referenceContentType}
+            className="p-2 rounded-md border bg-background"
+          >
+            <option value="">Field...</option>
+            {referenceContentType?.fields
+              .filter((f) => ["Symbol", "Text", "Integer", "Number"].includes(f.type))
+              .map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+          </select>
+          {!mapping.reference?.lookupField && (
+            <span className="text-yellow-700">
+              Choose how to find the referenced entries
+            </span>
+          )}
+        </div>
+      );
+    }
+
+    if (isAssetField(targetField)) {
+      const names = mappingSamples(sampleRows, mapping).flatMap((v) =>
+        splitMediaValues(v, targetField, resolveCoercionRules(coercionRules).listSeparators)
+      );
+      return (
+        <div className="ml-8 space-y-2 p-3 bg-muted/50 rounded-md text-sm">
+          {mediaFiles.length > 0 ? (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!mapping.media}
+                  onChange={(e) => updateAt(index, { media: e.target.checked })}
+                />
+                Upload the files named in this column from the ZIP as assets
+              </label>
+              {mapping.media &&
+                names.map((name) => {
+                  const file = findMediaFile(mediaFiles, name);
+                  return (
+                    <p key={name} className={cn("font-mono text-xs", !file && "text-red-600")}>
+                      {name} → {file ? file.path : "not in the ZIP"}
+                    </p>
+                  );
+                })}
+            </>
+          ) : (
+            <p className="text-yellow-700">
+              To import files into this field, upload a ZIP with the spreadsheet and the files it names
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <details
+        open={!!mapping.transforms?.length}
+        className="ml-8 p-3 bg-muted/50 rounded-md text-sm"
+      >
+        <summary className="cursor-pointer select-none">
+          <span className="font-medium">Transforms</span>
+          <span className="text-muted-foreground">
+            {mapping.transforms?.length
+              ? ` — ${mapping.transforms.map(describeTransform).join(" → ")}`
+              : mapping.transformRequired
+                ? " — AI suggests a transform"
+                : " — none"}
+          </span>
+        </summary>
+        <div className="mt-3 space-y-3">
+          {mapping.transformDescription && (
+            <p className="text-muted-foreground">
+              AI note: {mapping.transformDescription}
+            </p>
+          )}
+          <TransformEditor
+            steps={mapping.transforms || []}
+            samples={mappingSamples(sampleRows, mapping)}
+            field={targetField}
+            rules={coercionRules}
+            onChange={(steps: TransformStep[]) =>
+              updateAt(index, { transforms: steps.length > 0 ? steps : undefined })
+            }
+          />
+        </div>
+      </details>
+    );
+  };
+
+  const combined = mappings
+    .map((mapping, index) => ({ mapping, index }))
+    .filter(({ mapping }) => mapping.template !== undefined);
+
   return (
     <div className="space-y-4">
       <div className="grid grid-cols-[1fr,auto,1fr,auto] gap-4 items-center font-medium text-sm text-muted-foreground pb-2 border-b">
@@ -61,63 +347,192 @@ export function FieldMappingEditor({
       </div>
 
       {sourceHeaders.map((header) => {
-        const mapping = mappings.find((m) => m.sourceField === header);
-        const targetField = targetFields.find(
-          (f) => f.id === mapping?.targetField
-        );
+        // One column may feed several fields
+        const columnMappings = mappings
+          .map((mapping, index) => ({ mapping, index }))
+          .filter(({ mapping }) => mapping.sourceField === header && mapping.template === undefined);
+        const headerLocale = parseLocaleColumn(header, locales)?.locale;
 
         return (
-          <div
-            key={header}
-            className="grid grid-cols-[1fr,auto,1fr,auto] gap-4 items-center"
-          >
-            <div className="p-3 bg-muted rounded-md">
-              <span className="font-medium text-sm">{header}</span>
-            </div>
-
-            <ArrowRight className="h-4 w-4 text-muted-foreground" />
-
-            <select
-              value={mapping?.targetField || ""}
-              onChange={(e) => updateMapping(header, e.target.value)}
-              className="p-3 rounded-md border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-            >
-              <option value="">-- Skip this column --</option>
-              {targetFields.map((field) => (
-                <option key={field.id} value={field.id}>
-                  {field.name} ({field.type})
-                  {field.required ? " *" : ""}
-                </option>
-              ))}
-            </select>
-
-            <div className="w-24 flex items-center justify-center">
-              {mapping ? (
-                <div
-                  className={cn(
-                    "flex items-center gap-1 text-sm",
-                    getConfidenceColor(mapping.confidence)
-                  )}
+          <React.Fragment key={header}>
+            {columnMappings.length === 0 ? (
+              <div className="grid grid-cols-[1fr,auto,1fr,auto] gap-4 items-center">
+                <div className="p-3 bg-muted rounded-md">
+                  <span className="font-medium text-sm">{header}</span>
+                </div>
+
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+
+                <select
+                  value=""
+                  onChange={(e) => addMapping(header, e.target.value)}
+                  className="p-3 rounded-md border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                 >
-                  {mapping.confidence >= 0.8 ? (
-                    <Check className="h-4 w-4" />
-                  ) : (
-                    <AlertTriangle className="h-4 w-4" />
-                  )}
-                  <span>{Math.round(mapping.confidence * 100)}%</span>
+                  <option value="">-- Skip this column --</option>
+                  {fieldOptions(undefined, headerLocale)}
+                </select>
+
+                <div className="w-24 flex items-center justify-center">
+                  <span className="text-sm text-muted-foreground">—</span>
                 </div>
-              ) : (
-                <span className="text-sm text-muted-foreground">—</span>
-              )}
-            </div>
-          </div>
+              </div>
+            ) : (
+              columnMappings.map(({ mapping, index }, position) => (
+                <React.Fragment key={`${header}-${index}`}>
+                  <div className="grid grid-cols-[1fr,auto,1fr,auto] gap-4 items-center">
+                    {position === 0 ? (
+                      <div className="p-3 bg-muted rounded-md flex items-center justify-between gap-2">
+                        <span className="font-medium text-sm">{header}</span>
+                        {mapping.locale && (
+                          <span className="px-1.5 py-0.5 rounded bg-background border text-xs font-mono">
+                            {mapping.locale}
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="pl-3 text-sm text-muted-foreground">↳ also</span>
+                    )}
+
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+
+                    <select
+                      value={mapping.targetField}
+                      onChange={(e) => setTarget(index, e.target.value)}
+                      className="p-3 rounded-md border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="">
+                        {position === 0 ? "-- Skip this column --" : "-- Remove --"}
+                      </option>
+                      {fieldOptions(mapping.targetField, mapping.locale)}
+                    </select>
+
+                    <div className="w-24 flex items-center justify-center">
+                      <div
+                        className={cn(
+                          "flex items-center gap-1 text-sm",
+                          getConfidenceColor(mapping.confidence)
+                        )}
+                      >
+                        {mapping.confidence >= 0.8 ? (
+                          <Check className="h-4 w-4" />
+                        ) : (
+                          <AlertTriangle className="h-4 w-4" />
+                        )}
+                        <span>{Math.round(mapping.confidence * 100)}%</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {renderDetails(mapping, index)}
+                </React.Fragment>
+              ))
+            )}
+
+            {/* Map the same column to another field */}
+            {columnMappings.length > 0 && availableFields(undefined, headerLocale).length > 0 && (
+              <div className="ml-8">
+                <select
+                  value=""
+                  onChange={(e) => addMapping(header, e.target.value)}
+                  className="p-2 rounded-md border bg-background text-sm text-muted-foreground"
+                >
+                  <option value="">+ Also map &quot;{header}&quot; to...</option>
+                  {fieldOptions(undefined, headerLocale)}
+                </select>
+              </div>
+            )}
+          </React.Fragment>
         );
       })}
 
+      {/* Several columns combined into one field */}
+      <div className="pt-4 border-t space-y-3">
+        <div>
+          <p className="font-medium text-sm">Combined fields</p>
+          <p className="text-sm text-muted-foreground">
+            Fill one field from several columns with a template, e.g. {"{First Name} {Last Name}"}
+          </p>
+        </div>
+
+        {combined.map(({ mapping, index }) => {
+          const preview = sampleRows.length > 0 && mapping.template
+            ? renderTemplate(mapping.template, sampleRows[0])
+            : null;
+          const unknown = templateColumns(mapping.template || "").filter(
+            (c) => !sourceHeaders.includes(c)
+          );
+
+          return (
+            <React.Fragment key={`combined-${index}`}>
+              <div className="p-3 rounded-md border space-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={mapping.template || ""}
+                    onChange={(e) => updateTemplate(index, e.target.value)}
+                    placeholder="{First Name} {Last Name}"
+                    className="flex-1 p-2 rounded-md border bg-background font-mono"
+                  />
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <select
+                    value={mapping.targetField}
+                    onChange={(e) => setTarget(index, e.target.value)}
+                    className="p-2 rounded-md border bg-background"
+                  >
+                    <option value="">-- Remove --</option>
+                    {fieldOptions(mapping.targetField)}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setTarget(index, "")}
+                    className="p-1 rounded hover:bg-muted"
+                    aria-label="Remove combined field"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {sourceHeaders.map((h) => (
+                    <button
+                      key={h}
+                      type="button"
+                      onClick={() => updateTemplate(index, `${mapping.template || ""}{${h}}`)}
+                      className="px-2 py-0.5 rounded border text-xs hover:bg-muted"
+                    >
+                      <Plus className="inline h-3 w-3" /> {h}
+                    </button>
+                  ))}
+                </div>
+                {unknown.length > 0 ? (
+                  <p className="text-xs text-red-600">
+                    Unknown column{unknown.length > 1 ? "s" : ""}: {unknown.join(", ")}
+                  </p>
+                ) : (
+                  preview !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      First row: <span className="font-mono">{preview}</span>
+                    </p>
+                  )
+                )}
+              </div>
+              {renderDetails(mapping, index)}
+            </React.Fragment>
+          );
+        })}
+
+        {availableFields().length > 0 && (
+          <select
+            value=""
+            onChange={(e) => addMapping(sourceHeaders[0], e.target.value, "")}
+            className="p-2 rounded-md border bg-background text-sm text-muted-foreground"
+          >
+            <option value="">+ Combine columns into...</option>
+            {fieldOptions()}
+          </select>
+        )}
+      </div>
+
       {/* Required fields warning */}
-      {targetFields
-        .filter((f) => f.required)
-        .some((f) => !mappings.find((m) => m.targetField === f.id)) && (
+      {unmappedRequired.length > 0 && (
         <div className="flex items-start gap-2 p-4 bg-yellow-50 border border-yellow-200 rounded-lg mt-4">
           <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
           <div>
@@ -125,14 +540,8 @@ export function FieldMappingEditor({
               Required fields not mapped
             </p>
             <p className="text-sm text-yellow-700 mt-1">
-              The following required fields are not mapped:{" "}
-              {targetFields
-                .filter(
-                  (f) =>
-                    f.required && !mappings.find((m) => m.targetField === f.id)
-                )
-                .map((f) => f.name)
-                .join(", ")}
+              The following required fields are not mapped and have no default value:{" "}
+              {unmappedRequired.map((f) => f.name).join(", ")}
             </p>
           </div>
         </div>
@@ -2,7 +2,7 @@
 
 import React, { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
-import { Upload, FileSpreadsheet, X, AlertCircle } from "lucide-react";
+import { Upload, FileSpreadsheet, FileArchive, X, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 
@@ -10,6 +10,8 @@ interface FileUploadProps {
   onFileSelect: (file: File) => void;
   acceptedFileTypes?: string[];
   maxSize?: number;
+  // ZIPs carry media files as well, so they may be larger
+  maxZipSize?: number;
   disabled?: boolean;
 }
 
@@ -20,14 +22,21 @@ const DEFAULT_ACCEPTED_TYPES = [
   "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
   "application/vnd.ms-excel",
   "text/csv",
+  ".zip",
+  "application/zip",
 ];
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Below serverActions.bodySizeLimit in next.config.js, which also counts the multipart encoding
+const MAX_ZIP_SIZE = 45 * 1024 * 1024; // 45MB
+
+const isZip = (file: File) => file.name.toLowerCase().endsWith(".zip");
 
 export function FileUpload({
   onFileSelect,
   acceptedFileTypes = DEFAULT_ACCEPTED_TYPES,
   maxSize = MAX_FILE_SIZE,
+  maxZipSize = MAX_ZIP_SIZE,
   disabled = false,
 }: FileUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -40,9 +49,10 @@ export function FileUpload({
       if (rejectedFiles.length > 0) {
         const rejection = rejectedFiles[0];
         if (rejection.errors[0]?.code === "file-too-large") {
-          setError(`File is too large. Maximum size is ${maxSize / 1024 / 1024}MB`);
+          const limit = isZip(rejection.file) ? maxZipSize : maxSize;
+          setError(`File is too large. Maximum size is ${limit / 1024 / 1024}MB`);
         } else if (rejection.errors[0]?.code === "file-invalid-type") {
-          setError("Invalid file type. Please upload an Excel or CSV file.");
+          setError("Invalid file type. Please upload an Excel, CSV or ZIP file.");
         } else {
           setError("Unable to process this file. Please try again.");
         }
@@ -51,11 +61,15 @@ export function FileUpload({
 
       if (acceptedFiles.length > 0) {
         const file = acceptedFiles[0];
+        if (!isZip(file) && file.size > maxSize) {
+          setError(`File is too large. Maximum size is ${maxSize / 1024 / 1024}MB`);
+          return;
+        }
         setSelectedFile(file);
         onFileSelect(file);
       }
     },
-    [onFileSelect, maxSize]
+    [onFileSelect, maxSize, maxZipSize]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -64,8 +78,9 @@ export function FileUpload({
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
       "application/vnd.ms-excel": [".xls"],
       "text/csv": [".csv"],
+      "application/zip": [".zip"],
     },
-    maxSize,
+    maxSize: Math.max(maxSize, maxZipSize),
     disabled,
     multiple: false,
   });
@@ -100,7 +115,11 @@ export function FileUpload({
         {selectedFile ? (
           <div className="flex flex-col items-center gap-3">
             <div className="flex items-center gap-3 p-4 bg-muted rounded-lg">
-              <FileSpreadsheet className="h-10 w-10 text-primary" />
+              {isZip(selectedFile) ? (
+                <FileArchive className="h-10 w-10 text-primary" />
+              ) : (
+                <FileSpreadsheet className="h-10 w-10 text-primary" />
+              )}
               <div className="flex flex-col">
                 <span className="font-medium text-sm">{selectedFile.name}</span>
                 <span className="text-xs text-muted-foreground">
@@ -142,7 +161,8 @@ export function FileUpload({
               or click to browse
             </p>
             <p className="text-xs text-muted-foreground">
-              Supports Excel (.xlsx, .xls) and CSV files up to 10MB
+              Supports Excel (.xlsx, .xls) and CSV files up to {maxSize / 1024 / 1024}MB, or a ZIP
+              with the spreadsheet and its media files up to {maxZipSize / 1024 / 1024}MB
             </p>
           </>
         )}
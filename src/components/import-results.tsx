@@ -1,17 +1,94 @@
 "use client";
 
-import React from "react";
-import { CheckCircle, XCircle, AlertTriangle, ExternalLink } from "lucide-react";
+import React, { useState } from "react";
+import {
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  ExternalLink,
+  RefreshCw,
+  History,
+  Loader2,
+  Undo2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { ImportResult } from "@/types";
+import { Progress } from "@/components/ui/progress";
+import type { ImportResult, RollbackResult } from "@/types";
 
 interface ImportResultsProps {
   result: ImportResult;
   onReset: () => void;
+  // Retry the failed rows of this import run
+  onResume?: (runId: string) => void;
+  // Undo this import run; progress and outcome come back through `rollback`
+  onRollback?: (runId: string) => void;
+  rollback?: RollbackResult | null;
+  rollingBack?: boolean;
+  // Run the import a dry run checked
+  onImport?: () => void;
 }
 
-export function ImportResults({ result, onReset }: ImportResultsProps) {
+const ROLLBACK_REASONS: Record<RollbackResult["issues"][number]["reason"], string> = {
+  edited: "Edited since the import",
+  unverified: "Not verified",
+  missing: "Not found",
+  failed: "Failed",
+};
+
+function RollbackPanel({ rollback, rollingBack }: { rollback: RollbackResult; rollingBack: boolean }) {
+  const percent = rollback.total > 0 ? Math.round((rollback.processed / rollback.total) * 100) : 100;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <p className="flex items-center gap-2 font-medium text-sm">
+        {rollingBack ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+        {rollingBack
+          ? "Rolling back import"
+          : rollback.processed < rollback.total
+          ? "Rollback stopped partway"
+          : "Import rolled back"}
+      </p>
+      <Progress value={percent} className="h-2" />
+      <p className="text-sm text-muted-foreground">
+        {rollback.processed} of {rollback.total} entries handled: {rollback.deleted} deleted,{" "}
+        {rollback.restored} restored
+        {rollback.issues.length > 0 && `, ${rollback.issues.length} not reverted`}
+      </p>
+
+      {rollback.issues.length > 0 && (
+        <div className="rounded-md border border-yellow-200 max-h-40 overflow-y-auto bg-yellow-50/50">
+          {rollback.issues.map((issue) => (
+            <div key={issue.entryId} className="px-3 py-2 border-b border-yellow-100 last:border-b-0">
+              <p className="text-sm text-yellow-800">
+                <span className="font-medium">
+                  {issue.rows.length === 1 ? "Row" : "Rows"} {issue.rows.join(", ")}
+                </span>{" "}
+                <span className="font-mono text-xs">{issue.entryId}</span>:{" "}
+                {ROLLBACK_REASONS[issue.reason]}
+              </p>
+              <p className="text-xs text-yellow-700 mt-1">{issue.message}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ImportResults({
+  result,
+  onReset,
+  onResume,
+  onRollback,
+  rollback,
+  rollingBack = false,
+  onImport,
+}: ImportResultsProps) {
   const contentfulUrl = process.env.NEXT_PUBLIC_CONTENTFUL_WEB_URL || "https://app.contentful.com";
+  const [confirmingRollback, setConfirmingRollback] = useState(false);
+  const rolledBack = !!rollback && rollback.processed >= rollback.total && rollback.issues.length === 0;
+  const canRollBack =
+    !!onRollback && !!result.runId && (result.rollbackTargets ?? 0) > 0 && !rolledBack && !rollingBack;
 
   return (
     <div className="space-y-6">
@@ -20,7 +97,7 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
         className={`p-6 rounded-lg border ${
           result.success
             ? "bg-green-50 border-green-200"
-            : result.failed > 0 && result.created > 0
+            : result.failed > 0 && result.created + result.updated > 0
             ? "bg-yellow-50 border-yellow-200"
             : "bg-red-50 border-red-200"
         }`}
@@ -28,7 +105,7 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
         <div className="flex items-start gap-4">
           {result.success ? (
             <CheckCircle className="h-8 w-8 text-green-600 flex-shrink-0" />
-          ) : result.created > 0 ? (
+          ) : result.created + result.updated > 0 ? (
             <AlertTriangle className="h-8 w-8 text-yellow-600 flex-shrink-0" />
           ) : (
             <XCircle className="h-8 w-8 text-red-600 flex-shrink-0" />
@@ -38,14 +115,18 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
               className={`text-lg font-semibold ${
                 result.success
                   ? "text-green-800"
-                  : result.created > 0
+                  : result.created + result.updated > 0
                   ? "text-yellow-800"
                   : "text-red-800"
               }`}
             >
-              {result.success
+              {result.dryRun
+                ? result.success
+                  ? "Dry Run Passed"
+                  : "Dry Run Found Problems"
+                : result.success
                 ? "Import Completed Successfully!"
-                : result.created > 0
+                : result.created + result.updated > 0
                 ? "Import Completed with Errors"
                 : "Import Failed"}
             </h3>
@@ -53,12 +134,14 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
               className={`mt-1 ${
                 result.success
                   ? "text-green-700"
-                  : result.created > 0
+                  : result.created + result.updated > 0
                   ? "text-yellow-700"
                   : "text-red-700"
               }`}
             >
-              Processed {result.totalProcessed} rows
+              {result.dryRun
+                ? `Checked ${result.totalProcessed} rows; nothing was written to Contentful`
+                : `Processed ${result.totalProcessed} rows`}
             </p>
           </div>
         </div>
@@ -68,23 +151,43 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
       <div className="grid grid-cols-3 gap-4">
         <div className="p-4 rounded-lg bg-muted text-center">
           <p className="text-3xl font-bold text-green-600">{result.created}</p>
-          <p className="text-sm text-muted-foreground">Created</p>
+          <p className="text-sm text-muted-foreground">{result.dryRun ? "Would Create" : "Created"}</p>
         </div>
         <div className="p-4 rounded-lg bg-muted text-center">
           <p className="text-3xl font-bold text-blue-600">{result.updated}</p>
-          <p className="text-sm text-muted-foreground">Updated</p>
+          <p className="text-sm text-muted-foreground">{result.dryRun ? "Would Update" : "Updated"}</p>
         </div>
         <div className="p-4 rounded-lg bg-muted text-center">
           <p className="text-3xl font-bold text-red-600">{result.failed}</p>
-          <p className="text-sm text-muted-foreground">Failed</p>
+          <p className="text-sm text-muted-foreground">{result.dryRun ? "Would Fail" : "Failed"}</p>
         </div>
       </div>
 
+      {/* Retries are not failures, but show how hard the rate limit was hit */}
+      {result.retries > 0 && (
+        <p className="flex items-center gap-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+          <RefreshCw className="h-4 w-4 flex-shrink-0" />
+          {result.retries} API {result.retries === 1 ? "call was" : "calls were"} retried after
+          rate limits or server errors; {result.retried} {result.retried === 1 ? "row" : "rows"}{" "}
+          succeeded on retry.
+        </p>
+      )}
+
+      {result.resumedRows !== undefined && result.resumedRows > 0 && (
+        <p className="flex items-center gap-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+          <History className="h-4 w-4 flex-shrink-0" />
+          {result.resumedRows} {result.resumedRows === 1 ? "row was" : "rows were"} written by an
+          earlier attempt of this import and skipped.
+        </p>
+      )}
+
       {/* Entries created */}
       {result.entries.length > 0 && (
         <div className="rounded-lg border overflow-hidden">
           <div className="bg-muted px-4 py-2 border-b">
-            <p className="font-medium text-sm">Imported Entries</p>
+            <p className="font-medium text-sm">
+              {result.dryRun ? "Entries to Import" : "Imported Entries"}
+            </p>
           </div>
           <div className="max-h-60 overflow-y-auto">
             <table className="w-full text-sm">
@@ -92,16 +195,28 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
                 <tr className="bg-muted/50">
                   <th className="px-4 py-2 text-left font-medium">Row</th>
                   <th className="px-4 py-2 text-left font-medium">Entry ID</th>
+                  <th className="px-4 py-2 text-left font-medium">Action</th>
                   <th className="px-4 py-2 text-left font-medium">Status</th>
                   <th className="px-4 py-2 text-left font-medium">Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {result.entries.slice(0, 20).map((entry) => (
-                  <tr key={entry.entryId} className="border-t hover:bg-muted/30">
+                  <tr key={`${entry.row}-${entry.entryId}`} className="border-t hover:bg-muted/30">
                     <td className="px-4 py-2">{entry.row}</td>
                     <td className="px-4 py-2 font-mono text-xs">
-                      {entry.entryId}
+                      {entry.entryId || <span className="font-sans text-muted-foreground">new</span>}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                          entry.action === "updated"
+                            ? "bg-blue-100 text-blue-800"
+                            : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {entry.action}
+                      </span>
                     </td>
                     <td className="px-4 py-2">
                       <span
@@ -115,14 +230,16 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
                       </span>
                     </td>
                     <td className="px-4 py-2">
-                      <a
-                        href={`${contentfulUrl}/spaces/${process.env.NEXT_PUBLIC_CONTENTFUL_SPACE_ID}/entries/${entry.entryId}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="inline-flex items-center gap-1 text-primary hover:underline"
-                      >
-                        View <ExternalLink className="h-3 w-3" />
-                      </a>
+                      {entry.entryId && (
+                        <a
+                          href={`${contentfulUrl}/spaces/${process.env.NEXT_PUBLIC_CONTENTFUL_SPACE_ID}/entries/${entry.entryId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          View <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -164,8 +281,88 @@ export function ImportResults({ result, onReset }: ImportResultsProps) {
         </div>
       )}
 
+      {/* Publish checks of a draft dry run; the import itself would succeed */}
+      {result.warnings && result.warnings.length > 0 && (
+        <div className="rounded-lg border border-yellow-200 overflow-hidden">
+          <div className="bg-yellow-50 px-4 py-2 border-b border-yellow-200">
+            <p className="font-medium text-sm text-yellow-800">
+              Would block publishing ({result.warnings.length})
+            </p>
+            <p className="text-xs text-yellow-700">
+              Drafts are saved as they are; Contentful checks these when the entries are published.
+            </p>
+          </div>
+          <div className="max-h-40 overflow-y-auto bg-yellow-50/50">
+            {result.warnings.map((warning, index) => (
+              <div key={index} className="px-4 py-2 border-b border-yellow-100 last:border-b-0">
+                <p className="text-sm text-yellow-800">
+                  <span className="font-medium">Row {warning.row}: </span>
+                  {warning.message}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rollback && <RollbackPanel rollback={rollback} rollingBack={rollingBack} />}
+
+      {/* Rolling back deletes entries, so it takes a second click */}
+      {confirmingRollback && canRollBack && (
+        <div className="flex items-start gap-3 p-4 rounded-lg border border-red-200 bg-red-50">
+          <AlertTriangle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="space-y-3">
+            <p className="text-sm text-red-800">
+              Rolling back reverts {result.rollbackTargets}{" "}
+              {result.rollbackTargets === 1 ? "entry" : "entries"}: entries the import created are
+              deleted, including ones whose row failed after the entry was created, and updated
+              entries are restored to how they were before the import. Entries edited since the
+              import are left as they are.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => {
+                  setConfirmingRollback(false);
+                  onRollback!(result.runId!);
+                }}
+              >
+                Roll Back
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setConfirmingRollback(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex justify-center gap-4 pt-4">
+        {result.dryRun && onImport && result.created + result.updated > 0 && (
+          <Button size="lg" onClick={onImport}>
+            {result.success
+              ? `Import ${result.created + result.updated} Entries`
+              : `Import Anyway (${result.failed} rows will fail)`}
+          </Button>
+        )}
+        {canRollBack && !confirmingRollback && (
+          <Button variant="outline" size="lg" onClick={() => setConfirmingRollback(true)}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            {!rollback
+              ? "Roll Back This Import"
+              : rollback.processed < rollback.total
+              ? "Continue Rollback"
+              : "Retry Rollback"}
+          </Button>
+        )}
+        {onResume && result.runId && result.failed > 0 && !rollback && !rollingBack && (
+          <Button variant="outline" size="lg" onClick={() => onResume(result.runId!)}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry Failed Rows
+          </Button>
+        )}
         <Button onClick={onReset} size="lg">
           Import Another File
         </Button>
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  TRANSFORM_LABELS,
+  applyTransforms,
+  checkTransformStep,
+  createTransformStep,
+} from "@/lib/transforms";
+import { coerceValue, resolveCoercionRules } from "@/lib/value-coercion";
+import type {
+  CoercionRules,
+  ContentfulField,
+  ContentRow,
+  TransformStep,
+  TransformType,
+} from "@/types";
+
+interface TransformEditorProps {
+  steps: TransformStep[];
+  samples: ContentRow[string][];
+  field?: ContentfulField;
+  rules?: CoercionRules;
+  onChange: (steps: TransformStep[]) => void;
+}
+
+const inputClass = "p-2 rounded-md border bg-background text-sm";
+
+// "from = to" per line; kept as raw text while typing
+function LookupEntriesInput({
+  step,
+  onChange,
+}: {
+  step: Extract<TransformStep, { type: "lookup" }>;
+  onChange: (step: TransformStep) => void;
+}) {
+  const [text, setText] = useState(
+    step.entries.map((e) => `${e.from} = ${e.to}`).join("\n")
+  );
+
+  return (
+    <textarea
+      value={text}
+      rows={3}
+      placeholder={"NL = Netherlands\nDE = Germany"}
+      onChange={(e) => {
+        setText(e.target.value);
+        const entries = e.target.value
+          .split("\n")
+          .filter((line) => line.includes("="))
+          .map((line) => {
+            const index = line.indexOf("=");
+            return { from: line.slice(0, index).trim(), to: line.slice(index + 1).trim() };
+          })
+          .filter((entry) => entry.from !== "");
+        onChange({ ...step, entries });
+      }}
+      className={cn(inputClass, "w-full font-mono")}
+    />
+  );
+}
+
+function StepSettings({
+  step,
+  onChange,
+}: {
+  step: TransformStep;
+  onChange: (step: TransformStep) => void;
+}) {
+  switch (step.type) {
+    case "split":
+    case "join":
+      return (
+        <input
+          value={step.separator}
+          onChange={(e) => onChange({ ...step, separator: e.target.value })}
+          placeholder="Separator"
+          className={cn(inputClass, "w-24")}
+        />
+      );
+    case "dateFormat":
+      return (
+        <>
+          <input
+            value={step.from}
+            onChange={(e) => onChange({ ...step, from: e.target.value })}
+            placeholder="From, e.g. DD/MM/YYYY"
+            className={cn(inputClass, "w-36")}
+          />
+          <span className="text-muted-foreground">to</span>
+          <input
+            value={step.to}
+            onChange={(e) => onChange({ ...step, to: e.target.value })}
+            placeholder="To, e.g. YYYY-MM-DD"
+            className={cn(inputClass, "w-36")}
+          />
+        </>
+      );
+    case "case":
+      return (
+        <select
+          value={step.to}
+          onChange={(e) => onChange({ ...step, to: e.target.value as typeof step.to })}
+          className={inputClass}
+        >
+          <option value="lower">lower case</option>
+          <option value="upper">UPPER CASE</option>
+          <option value="title">Title Case</option>
+          <option value="sentence">Sentence case</option>
+        </select>
+      );
+    case "regexReplace":
+      return (
+        <>
+          <input
+            value={step.pattern}
+            onChange={(e) => onChange({ ...step, pattern: e.target.value })}
+            placeholder="Pattern"
+            className={cn(inputClass, "w-36 font-mono")}
+          />
+          <input
+            value={step.replacement}
+            onChange={(e) => onChange({ ...step, replacement: e.target.value })}
+            placeholder="Replacement"
+            className={cn(inputClass, "w-32 font-mono")}
+          />
+          <input
+            value={step.flags || ""}
+            onChange={(e) => onChange({ ...step, flags: e.target.value })}
+            placeholder="Flags"
+            className={cn(inputClass, "w-16 font-mono")}
+          />
+        </>
+      );
+    case "lookup":
+      return (
+        <div className="w-full space-y-1">
+          <LookupEntriesInput step={step} onChange={onChange} />
+          <label className="flex items-center gap-2 text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={step.keepUnmatched}
+              onChange={(e) => onChange({ ...step, keepUnmatched: e.target.checked })}
+            />
+            Keep values without an entry (otherwise they are errors)
+          </label>
+        </div>
+      );
+    case "parseNumber":
+      return (
+        <select
+          value={step.decimalSeparator}
+          onChange={(e) =>
+            onChange({ ...step, decimalSeparator: e.target.value as "." | "," })
+          }
+          className={inputClass}
+        >
+          <option value=".">1,234.56</option>
+          <option value=",">1.234,56</option>
+        </select>
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Edit a mapping's transform steps with a live before/after preview
+ */
+export function TransformEditor({ steps, samples, field, rules, onChange }: TransformEditorProps) {
+  const updateStep = (index: number, step: TransformStep) =>
+    onChange(steps.map((s, i) => (i === index ? step : s)));
+
+  const preview = samples.map((sample) => {
+    const transformed = applyTransforms(sample, steps);
+    if (!transformed.ok) {
+      return { sample, error: transformed.message };
+    }
+    const coerced = field
+      ? coerceValue(transformed.value, field, resolveCoercionRules(rules))
+      : null;
+    if (coerced && !coerced.ok) {
+      return { sample, error: coerced.message };
+    }
+    return { sample, result: coerced ? coerced.value : transformed.value };
+  });
+
+  return (
+    <div className="space-y-3 text-sm">
+      {steps.map((step, index) => {
+        const problem = checkTransformStep(step);
+        return (
+          <div key={`${index}-${step.type}`} className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="w-5 text-muted-foreground">{index + 1}.</span>
+              <span className="font-medium w-28">{TRANSFORM_LABELS[step.type]}</span>
+              <StepSettings step={step} onChange={(s) => updateStep(index, s)} />
+              <button
+                type="button"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                className="ml-auto p-1 rounded hover:bg-muted"
+                aria-label="Remove step"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {problem && <p className="ml-7 text-xs text-red-600">{problem}</p>}
+          </div>
+        );
+      })}
+
+      <select
+        value=""
+        onChange={(e) =>
+          onChange([...steps, createTransformStep(e.target.value as TransformType)])
+        }
+        className={inputClass}
+      >
+        <option value="">+ Add step...</option>
+        {(Object.keys(TRANSFORM_LABELS) as TransformType[]).map((type) => (
+          <option key={type} value={type}>
+            {TRANSFORM_LABELS[type]}
+          </option>
+        ))}
+      </select>
+
+      {preview.length > 0 && (
+        <div className="rounded-md border overflow-hidden">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-muted/50">
+                <th className="px-3 py-1.5 text-left font-medium">Before</th>
+                <th className="px-3 py-1.5 text-left font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((row, i) => (
+                <tr key={i} className="border-t">
+                  <td className="px-3 py-1.5 font-mono">{String(row.sample)}</td>
+                  <td
+                    className={cn(
+                      "px-3 py-1.5 font-mono",
+                      "error" in row && row.error ? "text-red-600" : "text-green-700"
+                    )}
+                  >
+                    {"error" in row && row.error ? row.error : JSON.stringify(row.result)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
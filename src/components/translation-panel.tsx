@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useState } from "react";
+import { Languages, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { translateContent } from "@/app/actions";
+import { collectSourceTexts, translatableFields } from "@/lib/translation";
+import type {
+  CoercionRules,
+  ContentfulField,
+  ContentfulLocale,
+  ContentRow,
+  FieldMapping,
+  FieldTranslations,
+} from "@/types";
+
+interface TranslationPanelProps {
+  rows: ContentRow[];
+  mappings: FieldMapping[];
+  fields: ContentfulField[];
+  rules?: CoercionRules;
+  locales: ContentfulLocale[];
+  importLocale: string;
+  translations: FieldTranslations[];
+  onTranslationsChange: (translations: FieldTranslations[]) => void;
+  // Called after AI calls were made, e.g. to refresh usage numbers
+  onTranslated?: () => void;
+}
+
+// Rows shown per field and locale in the review table
+const REVIEW_ROWS = 200;
+
+/**
+ * Pick text fields and locales to translate with AI, then review and edit
+ * the translations before they are imported
+ */
+export function TranslationPanel({
+  rows,
+  mappings,
+  fields,
+  rules,
+  locales,
+  importLocale,
+  translations,
+  onTranslationsChange,
+  onTranslated,
+}: TranslationPanelProps) {
+  const [selectedFields, setSelectedFields] = useState<string[]>([]);
+  const [selectedLocales, setSelectedLocales] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [notes, setNotes] = useState<string[]>([]);
+
+  const candidates = translatableFields(fields, mappings, importLocale);
+  const targetLocales = locales.filter((l) => l.code !== importLocale);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const handleTranslate = async () => {
+    setRunning(true);
+    setNotes([]);
+
+    const result = await translateContent({
+      sourceLocale: importLocale,
+      targetLocales: selectedLocales,
+      fields: candidates
+        .filter(({ field }) => selectedFields.includes(field.id))
+        .map(({ field, mapping }) => ({
+          id: field.id,
+          name: field.name,
+          texts: collectSourceTexts(rows, mapping, field, rules),
+        })),
+    });
+    onTranslated?.();
+    setRunning(false);
+
+    if (!result.success || !result.data) {
+      setNotes([result.error || "Translation failed"]);
+      return;
+    }
+
+    // New translations replace earlier ones for the same field and locale
+    const replaced = (t: FieldTranslations) =>
+      result.data!.translations.some((n) => n.field === t.field && n.locale === t.locale);
+    onTranslationsChange([...translations.filter((t) => !replaced(t)), ...result.data.translations]);
+    setNotes(result.data.notes);
+  };
+
+  const updateValue = (index: number, source: string, text: string) => {
+    onTranslationsChange(
+      translations.map((t, i) =>
+        i === index ? { ...t, values: { ...t.values, [source]: text } } : t
+      )
+    );
+  };
+
+  const fieldName = (id: string) => fields.find((f) => f.id === id)?.name || id;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="font-medium">Fields</p>
+          {candidates.map(({ field }) => (
+            <label key={field.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedFields.includes(field.id)}
+                onChange={() => setSelectedFields(toggle(selectedFields, field.id))}
+              />
+              {field.name} <span className="text-muted-foreground">({field.type})</span>
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <p className="font-medium">Translate into</p>
+          {targetLocales.map((l) => (
+            <label key={l.code} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedLocales.includes(l.code)}
+                onChange={() => setSelectedLocales(toggle(selectedLocales, l.code))}
+              />
+              {l.name} <span className="text-muted-foreground">({l.code})</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <Button
+        variant="outline"
+        onClick={handleTranslate}
+        disabled={running || selectedFields.length === 0 || selectedLocales.length === 0}
+      >
+        {running ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Languages className="mr-2 h-4 w-4" />
+        )}
+        Translate from {importLocale}
+      </Button>
+
+      {notes.map((note, i) => (
+        <p key={i} className="p-3 bg-blue-50 rounded-md text-blue-800">
+          {note}
+        </p>
+      ))}
+
+      {translations.map((translation, index) => {
+        const sources = Object.keys(translation.values);
+        return (
+          <details
+            key={`${translation.field}-${translation.locale}`}
+            className="rounded-md border overflow-hidden"
+          >
+            <summary className="flex items-center justify-between px-3 py-2 bg-muted/50 cursor-pointer">
+              <span>
+                <span className="font-medium">{fieldName(translation.field)}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  {translation.sourceLocale} → {translation.locale}, {sources.length} values
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  onTranslationsChange(translations.filter((_, i) => i !== index));
+                }}
+                className="p-1 rounded hover:bg-muted"
+                aria-label="Discard translations"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </summary>
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-muted/30">
+                    <th className="px-3 py-1.5 text-left font-medium w-1/2">{translation.sourceLocale}</th>
+                    <th className="px-3 py-1.5 text-left font-medium">{translation.locale}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sources.slice(0, REVIEW_ROWS).map((source) => (
+                    <tr key={source} className="border-t align-top">
+                      <td className="px-3 py-1.5">{source}</td>
+                      <td className="px-3 py-1.5">
+                        <textarea
+                          value={translation.values[source]}
+                          rows={1}
+                          onChange={(e) => updateValue(index, source, e.target.value)}
+                          className="w-full p-1 rounded border bg-background"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {sources.length > REVIEW_ROWS && (
+                <p className="px-3 py-2 text-muted-foreground border-t">
+                  Showing {REVIEW_ROWS} of {sources.length} values; the rest are imported as translated
+                </p>
+              )}
+            </div>
+          </details>
+        );
+      })}
+
+      {translations.length > 0 && (
+        <p className="text-muted-foreground">
+          Translations fill these locales at import for every entry whose field has no value there
+          yet. Clear a translation to leave that value empty.
+        </p>
+      )}
+    </div>
+  );
+}
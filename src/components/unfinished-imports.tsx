@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { History, Loader2, Play, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { listImportRuns } from "@/app/actions";
+import type { ImportRunSummary } from "@/types";
+
+interface UnfinishedImportsProps {
+  onResume: (runId: string) => void;
+  // Resolves once the rollback has finished, so the list can be reloaded
+  onRollback?: (runId: string) => Promise<void>;
+  // ID of the run being resumed, if any
+  resumingId?: string | null;
+  rollingBack?: boolean;
+}
+
+// Runs that stopped early, and rollbacks that left entries behind
+const isUnfinished = (run: ImportRunSummary) =>
+  run.status === "interrupted" ||
+  run.status === "failed" ||
+  (run.status === "rolled-back" && run.rollbackTargets > 0);
+
+export function UnfinishedImports({
+  onResume,
+  onRollback,
+  resumingId,
+  rollingBack = false,
+}: UnfinishedImportsProps) {
+  const [runs, setRuns] = useState<ImportRunSummary[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    const result = await listImportRuns();
+    if (result.success && result.data) {
+      setRuns(result.data.filter(isUnfinished));
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    listImportRuns().then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setRuns(result.data.filter(isUnfinished));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const rollBack = async (runId: string) => {
+    setConfirmingId(null);
+    setRollingBackId(runId);
+    try {
+      await onRollback!(runId);
+    } finally {
+      setRollingBackId(null);
+      await loadRuns();
+    }
+  };
+
+  if (runs.length === 0) return null;
+
+  const busy = !!resumingId || rollingBack;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <p className="flex items-center gap-2 font-medium text-sm">
+        <History className="h-4 w-4" />
+        Unfinished imports
+      </p>
+      <p className="text-sm text-muted-foreground">
+        These imports stopped before every row was written. Resuming skips the rows
+        that were already written; rolling back deletes the entries they created and restores
+        the ones they updated.
+      </p>
+
+      <div className="divide-y rounded-md border">
+        {runs.map((run) => (
+          <div key={run.id} className="px-3 py-2 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {run.fileName}{" "}
+                  <span className="font-normal text-muted-foreground">→ {run.contentTypeId}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {run.status === "interrupted"
+                    ? "Interrupted"
+                    : run.status === "rolled-back"
+                    ? "Partly rolled back"
+                    : "Finished with errors"}{" "}
+                  {new Date(run.updatedAt).toLocaleString()} · {run.written} of {run.totalRows} rows
+                  written
+                  {run.failed > 0 && `, ${run.failed} failed`}
+                  {run.rollbackTargets > 0 &&
+                    ` · ${run.rollbackTargets} ${run.rollbackTargets === 1 ? "entry" : "entries"} to roll back`}
+                  {run.status !== "rolled-back" && !run.resumable && " · media files expired"}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {onRollback && run.rollbackTargets > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setConfirmingId(run.id)}
+                    disabled={busy || confirmingId === run.id}
+                  >
+                    {rollingBackId === run.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Undo2 className="mr-2 h-4 w-4" />
+                    )}
+                    {run.status === "rolled-back" ? "Retry Rollback" : "Roll Back"}
+                  </Button>
+                )}
+                {run.status !== "rolled-back" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onResume(run.id)}
+                    disabled={busy || !run.resumable}
+                    title={run.resumable ? undefined : "The media files of this upload have expired; upload the ZIP again"}
+                  >
+                    {resumingId === run.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Play className="mr-2 h-4 w-4" />
+                    )}
+                    Resume
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Rolling back deletes entries, so it takes a second click */}
+            {confirmingId === run.id && (
+              <div className="flex items-center justify-between gap-4 rounded-md border border-red-200 bg-red-50 px-3 py-2">
+                <p className="text-xs text-red-800">
+                  Revert {run.rollbackTargets} {run.rollbackTargets === 1 ? "entry" : "entries"}?
+                  Entries edited since the import are left as they are, and the import can't be
+                  resumed afterwards.
+                </p>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button size="sm" variant="destructive" onClick={() => rollBack(run.id)}>
+                    Roll Back
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setConfirmingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
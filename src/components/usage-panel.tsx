@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, BarChart3 } from "lucide-react";
+import { getUsageReport } from "@/app/actions";
+import type { UsageReport } from "@/types";
+
+interface UsagePanelProps {
+  // Change this value to reload the numbers, e.g. after an AI call
+  refreshKey?: number;
+}
+
+export function formatCost(cost: number) {
+  return `$${cost.toFixed(4)}`;
+}
+
+export function BudgetWarning({ report }: { report: UsageReport }) {
+  if (!report.warning) return null;
+
+  return (
+    <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+      <AlertTriangle className="h-4 w-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+      <p className="text-sm text-yellow-800">
+        {Math.round(report.usedPercent * 100)}% of the AI budget is used (warning at{" "}
+        {Math.round(report.budget.warningThreshold * 100)}%). When it runs out, field
+        mapping falls back to name matching.
+      </p>
+    </div>
+  );
+}
+
+export function UsagePanel({ refreshKey = 0 }: UsagePanelProps) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getUsageReport().then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setReport(result.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!report) return null;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 font-medium text-sm">
+          <BarChart3 className="h-4 w-4" />
+          AI usage (last 24h)
+        </p>
+        <Link href="/usage" className="text-sm text-primary hover:underline">
+          Details
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div>
+          <p className="text-lg font-semibold">{report.daily.calls}</p>
+          <p className="text-xs text-muted-foreground">
+            Calls ({report.daily.cachedCalls} cached)
+          </p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold">
+            {report.daily.totalTokens.toLocaleString()}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            of {report.budget.maxTokens.toLocaleString()} tokens
+          </p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold">{formatCost(report.daily.estimatedCost)}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatCost(report.remaining.cost)} remaining
+          </p>
+        </div>
+      </div>
+
+      <BudgetWarning report={report} />
+    </div>
+  );
+}
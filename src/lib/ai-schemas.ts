@@ -0,0 +1,203 @@
+/**
+ * AI Response Schemas
+ * JSON schemas requested from the model (structured output) and the zod
+ * schemas used to validate what actually comes back.
+ */
+
+import { z } from "zod";
+
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+// One object schema per transform step type
+const step = (type: string, properties: Record<string, unknown> = {}) => ({
+  type: "object",
+  properties: { type: { type: "string", enum: [type] }, ...properties },
+  required: ["type", ...Object.keys(properties)],
+  additionalProperties: false,
+});
+
+const TRANSFORM_STEP_SCHEMA = {
+  anyOf: [
+    step("split", { separator: { type: "string" } }),
+    step("join", { separator: { type: "string" } }),
+    step("dateFormat", { from: { type: "string" }, to: { type: "string" } }),
+    step("case", { to: { type: "string", enum: ["upper", "lower", "title", "sentence"] } }),
+    step("slugify"),
+    step("regexReplace", {
+      pattern: { type: "string" },
+      replacement: { type: "string" },
+      flags: { type: ["string", "null"] },
+    }),
+    step("lookup", {
+      entries: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { from: { type: "string" }, to: { type: "string" } },
+          required: ["from", "to"],
+          additionalProperties: false,
+        },
+      },
+      keepUnmatched: { type: "boolean" },
+    }),
+    step("parseNumber", { decimalSeparator: { type: "string", enum: [".", ","] } }),
+  ],
+};
+
+// Strict structured output requires every property to be listed as required
+export const FIELD_MAPPINGS_RESPONSE_SCHEMA: ResponseSchema = {
+  name: "field_mappings",
+  schema: {
+    type: "object",
+    properties: {
+      mappings: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            sourceField: { type: "string" },
+            targetField: { type: "string" },
+            confidence: { type: "number" },
+            transformRequired: { type: "boolean" },
+            transformDescription: { type: ["string", "null"] },
+            transforms: { type: "array", items: TRANSFORM_STEP_SCHEMA },
+          },
+          required: [
+            "sourceField",
+            "targetField",
+            "confidence",
+            "transformRequired",
+            "transformDescription",
+            "transforms",
+          ],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["mappings"],
+    additionalProperties: false,
+  },
+};
+
+export const TRANSLATIONS_RESPONSE_SCHEMA: ResponseSchema = {
+  name: "translations",
+  schema: {
+    type: "object",
+    properties: {
+      translations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: { type: "integer" },
+            text: { type: "string" },
+          },
+          required: ["index", "text"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["translations"],
+    additionalProperties: false,
+  },
+};
+
+export const transformStepSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("split"), separator: z.string() }),
+  z.object({ type: z.literal("join"), separator: z.string() }),
+  z.object({ type: z.literal("dateFormat"), from: z.string(), to: z.string() }),
+  z.object({ type: z.literal("case"), to: z.enum(["upper", "lower", "title", "sentence"]) }),
+  z.object({ type: z.literal("slugify") }),
+  z.object({
+    type: z.literal("regexReplace"),
+    pattern: z.string(),
+    replacement: z.string(),
+    flags: z.string().nullable().optional().transform((f) => f ?? undefined),
+  }),
+  z.object({
+    type: z.literal("lookup"),
+    entries: z.array(z.object({ from: z.string(), to: z.string() })),
+    keepUnmatched: z.boolean().default(true),
+  }),
+  z.object({ type: z.literal("parseNumber"), decimalSeparator: z.enum([".", ","]) }),
+]);
+
+export const fieldMappingSchema = z.object({
+  sourceField: z.string(),
+  targetField: z.string(),
+  confidence: z.number(),
+  transformRequired: z.boolean().optional(),
+  transformDescription: z.string().nullable().optional(),
+  // Steps are checked one by one so a single bad step doesn't reject the mapping
+  transforms: z.array(z.unknown()).nullable().optional(),
+});
+
+export const fieldMappingsResponseSchema = z.object({
+  mappings: z.array(fieldMappingSchema),
+});
+
+export type FieldMappingsResponse = z.infer<typeof fieldMappingsResponseSchema>;
+
+export const translationsResponseSchema = z.object({
+  translations: z.array(z.object({ index: z.number().int(), text: z.string() })),
+});
+
+export type TranslationsResponse = z.infer<typeof translationsResponseSchema>;
+
+/**
+ * Parse model output as JSON, tolerating markdown code fences
+ */
+export function parseJsonContent(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return JSON.parse((fenced ? fenced[1] : content).trim());
+}
+
+/**
+ * Parse and validate a field mapping response. A bare array is accepted
+ * for providers that ignore the requested response format.
+ */
+export function parseFieldMappingsResponse(
+  content: string
+): ParseResult<FieldMappingsResponse> {
+  return parseResponse(content, fieldMappingsResponseSchema, "mappings");
+}
+
+/**
+ * Parse and validate a translation response
+ */
+export function parseTranslationsResponse(content: string): ParseResult<TranslationsResponse> {
+  return parseResponse(content, translationsResponseSchema, "translations");
+}
+
+type ParseResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+// A bare array is wrapped in { [arrayKey]: [...] }
+function parseResponse<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  arrayKey: string
+): ParseResult<T> {
+  let json: unknown;
+  try {
+    json = parseJsonContent(content);
+  } catch (error) {
+    return {
+      ok: false,
+      error: `Response is not valid JSON: ${error instanceof Error ? error.message : "parse error"}`,
+    };
+  }
+
+  const result = schema.safeParse(Array.isArray(json) ? { [arrayKey]: json } : json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      ok: false,
+      error: `Response does not match the schema: ${issue.path.join(".") || "root"} ${issue.message}`,
+    };
+  }
+
+  return { ok: true, data: result.data };
+}
@@ -1,25 +1,85 @@
-import OpenAI from "openai";
 import type {
   ParsedFileResult,
   ValidationResult,
-  ValidationError,
   ValidationWarning,
   FieldMapping,
   ContentfulContentType,
+  CoercionRules,
+  MappingTier,
+  TransformStep,
+  AICallEstimate,
+  FieldTranslations,
+  TranslationRequest,
+  TranslationResult,
 } from "@/types";
-import { getTokenBudgetTracker } from "./token-budget";
+import { getTokenBudgetTracker, estimateCallCost } from "./token-budget";
+import {
+  createLLMProvider,
+  type LLMProvider,
+  type LLMMessage,
+  type LLMCompletionRequest,
+  type LLMCompletionResponse,
+} from "./llm-providers";
+import { getResponseCache } from "./response-cache";
+import {
+  FIELD_MAPPINGS_RESPONSE_SCHEMA,
+  TRANSLATIONS_RESPONSE_SCHEMA,
+  parseFieldMappingsResponse,
+  parseTranslationsResponse,
+  transformStepSchema,
+} from "./ai-schemas";
+import { checkTransformStep } from "./transforms";
+import { matchFieldsByName } from "./field-matching";
+import { getMappingMemory } from "./mapping-memory";
+import { expandLocaleMappings, localeVariantHeaders } from "./locale-columns";
+import {
+  profileColumns,
+  samplesPerColumn,
+  isTypeCompatible,
+  type ColumnProfile,
+} from "./column-profile";
+import { resolveCoercionRules } from "./value-coercion";
+import { validateRows, summarizeValidationErrors } from "./row-validation";
+import { countPromptTokens, estimateCallTokens } from "./token-estimation";
+
+// Prompt tokens allowed for sample values in the mapping request
+const MAPPING_SAMPLE_TOKENS = parseInt(process.env.AI_MAPPING_SAMPLE_TOKENS || "1500", 10);
+
+// Completion tokens allowed for the mapping response
+const MAPPING_MAX_TOKENS = 2000;
+
+// Prompt tokens of source text per translation request, and a cap on values per request
+const TRANSLATION_BATCH_TOKENS = 1500;
+const TRANSLATION_BATCH_SIZE = 100;
+// Completion allowance per source token; translations may run longer than the source
+const TRANSLATION_EXPANSION = 2;
+
+export interface FieldMappingSuggestion {
+  mappings: FieldMapping[];
+  // Why mappings were adjusted or fell back; shown to the user as suggestions
+  notes: string[];
+  tier: MappingTier;
+}
 
-export class AIValidationService {
-  private openai: OpenAI;
+// One step of the degradation policy: which model, and how many samples per column
+interface MappingAttempt {
+  tier: Exclude<MappingTier, "fallback">;
+  model: string;
+  maxSamples: number;
+}
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
+// Shown to the user when mapping ran on a degraded tier
+const TIER_NOTES: Partial<Record<MappingTier, string>> = {
+  economy: "The AI budget is running low, so field mapping used the cheaper {model} model.",
+  reduced:
+    "The AI budget is running low, so field mapping used {model} with fewer sample values. Mappings may be less accurate.",
+};
 
-    if (!apiKey) {
-      throw new Error("Missing OPENAI_API_KEY environment variable");
-    }
+export class AIValidationService {
+  private provider: LLMProvider;
 
-    this.openai = new OpenAI({ apiKey });
+  constructor(provider: LLMProvider = createLLMProvider()) {
+    this.provider = provider;
   }
 
   /**
@@ -27,16 +87,58 @@ export class AIValidationService {
    */
   async validateContent(
     parsedFile: ParsedFileResult,
-    contentType: ContentfulContentType
+    contentType: ContentfulContentType,
+    coercionRules?: Partial<CoercionRules>,
+    options: { validateRows?: boolean; useMappingMemory?: boolean; locales?: string[] } = {}
   ): Promise<ValidationResult> {
-    const errors: ValidationError[] = [];
+    const rules = resolveCoercionRules(coercionRules);
     const warnings: ValidationWarning[] = [];
     const suggestions: string[] = [];
 
+    const { columnProfiles, remembered, newHeaders } = this.planMapping(
+      parsedFile,
+      contentType,
+      rules,
+      options
+    );
+
+    let mappings = [...remembered.mappings];
+    let mappingTier: MappingTier | undefined;
+    if (remembered.coveredHeaders.length > 0) {
+      suggestions.push(
+        remembered.exactMatch
+          ? "Using the mappings you confirmed for this file layout last time."
+          : `Reused your earlier mappings for ${remembered.coveredHeaders.length} of ${parsedFile.headers.length} columns.`
+      );
+    }
+
     // Get AI-powered field mappings
-    const mappedFields = await this.suggestFieldMappings(
-      parsedFile.headers,
-      contentType.fields
+    if (newHeaders.length > 0) {
+      const { mappings: suggested, notes, tier } = await this.suggestFieldMappings(
+        newHeaders,
+        contentType.fields,
+        columnProfiles.filter((c) => newHeaders.includes(c.name))
+      );
+      mappings.push(...suggested);
+      suggestions.push(...notes);
+      mappingTier = tier;
+    }
+
+    // Columns such as "title (de-DE)" fill the base column's field in that locale
+    if (options.locales?.length) {
+      mappings = expandLocaleMappings(
+        mappings,
+        parsedFile.headers,
+        contentType.fields,
+        options.locales
+      );
+    }
+
+    const mappedFields = this.flagTypeMismatches(
+      mappings,
+      columnProfiles,
+      contentType.fields,
+      warnings
     );
 
     // Validate required fields
@@ -51,28 +153,10 @@ export class AIValidationService {
       }
     }
 
-    // Validate data in rows
-    for (let i = 0; i < Math.min(parsedFile.rows.length, 100); i++) {
-      const row = parsedFile.rows[i];
-      const rowNumber = i + 2;
-
-      for (const mapping of mappedFields) {
-        const value = row[mapping.sourceField];
-        const targetField = contentType.fields.find(
-          (f) => f.id === mapping.targetField
-        );
-
-        if (targetField) {
-          const fieldErrors = this.validateFieldValue(
-            value,
-            targetField,
-            rowNumber,
-            mapping.sourceField
-          );
-          errors.push(...fieldErrors);
-        }
-      }
-    }
+    // Validate data in all rows (callers that validate client-side can skip this)
+    const errors = options.validateRows === false
+      ? []
+      : await validateRows(parsedFile.rows, mappedFields, contentType.fields, { rules });
 
     // Generate suggestions
     if (mappedFields.some((m) => m.confidence < 0.7)) {
@@ -81,86 +165,474 @@ export class AIValidationService {
       );
     }
 
-    if (parsedFile.rows.length > 100) {
-      suggestions.push(
-        `Only the first 100 of ${parsedFile.rows.length} rows were validated. All rows will be imported.`
-      );
-    }
-
     return {
       isValid: errors.length === 0,
       errors,
       warnings,
       suggestions,
       mappedFields,
+      summary: summarizeValidationErrors(errors),
+      validatedRows: options.validateRows === false ? 0 : parsedFile.rows.length,
+      mappingTier,
     };
   }
 
   /**
-   * Use AI to suggest field mappings between spreadsheet columns and Contentful fields
+   * Preview the AI mapping call validateContent would make: the tier it
+   * would run on and its estimated tokens and cost
+   */
+  previewMappingCall(
+    parsedFile: ParsedFileResult,
+    contentType: ContentfulContentType,
+    coercionRules?: Partial<CoercionRules>,
+    options: { useMappingMemory?: boolean; locales?: string[] } = {}
+  ): AICallEstimate {
+    const { columnProfiles, newHeaders } = this.planMapping(
+      parsedFile,
+      contentType,
+      resolveCoercionRules(coercionRules),
+      options
+    );
+    const none = { promptTokens: 0, maxCompletionTokens: 0, totalTokens: 0, estimatedCost: 0 };
+
+    if (newHeaders.length === 0) {
+      return none;
+    }
+
+    const attempt = this.chooseMappingAttempt(
+      contentType.fields,
+      columnProfiles.filter((c) => newHeaders.includes(c.name))
+    );
+    if ("reason" in attempt) {
+      return { ...none, tier: "fallback", reason: attempt.reason };
+    }
+    return { ...attempt.estimate, tier: attempt.tier, model: attempt.model };
+  }
+
+  /**
+   * Profile the columns and work out which headers still need AI mapping
+   */
+  private planMapping(
+    parsedFile: ParsedFileResult,
+    contentType: ContentfulContentType,
+    rules: CoercionRules,
+    options: { useMappingMemory?: boolean; locales?: string[] }
+  ) {
+    // Sample values are capped by what's left of the token budget once the
+    // rest of the prompt and the response are accounted for
+    const baseTokens =
+      countPromptTokens([
+        { role: "user", content: this.buildMappingPrompt(contentType.fields, parsedFile.headers, 0) },
+      ]) + MAPPING_MAX_TOKENS;
+    const remainingTokens = getTokenBudgetTracker().canMakeCall(0).remaining.tokens;
+    const sampleAllowance = Math.min(
+      MAPPING_SAMPLE_TOKENS,
+      Math.max(0, remainingTokens - baseTokens)
+    );
+    const columnProfiles = profileColumns(parsedFile.headers, parsedFile.rows, {
+      maxSamples: samplesPerColumn(parsedFile.headers.length, sampleAllowance),
+      rules,
+    });
+
+    // Reuse mappings confirmed for this file layout; only ask the model about the rest
+    const remembered = options.useMappingMemory === false
+      ? { mappings: [], coveredHeaders: [], exactMatch: false }
+      : getMappingMemory().recall(contentType.id, parsedFile.headers);
+    // Locale variants of a column in the file follow that column's mapping
+    const variants = localeVariantHeaders(parsedFile.headers, options.locales || []);
+    const newHeaders = parsedFile.headers.filter(
+      (h) => !remembered.coveredHeaders.includes(h) && !variants.includes(h)
+    );
+
+    return { columnProfiles, remembered, newHeaders };
+  }
+
+  /**
+   * Use AI to suggest field mappings between spreadsheet columns and Contentful fields.
+   * When the budget can't cover the call, degrades to the provider's economy
+   * model, then to fewer sample values, and only then to name matching.
    */
   async suggestFieldMappings(
     sourceHeaders: string[],
-    targetFields: { id: string; name: string; type: string }[]
-  ): Promise<FieldMapping[]> {
+    targetFields: { id: string; name: string; type: string }[],
+    columnProfiles?: ColumnProfile[]
+  ): Promise<FieldMappingSuggestion> {
+    const budgetTracker = getTokenBudgetTracker();
+    const attempt = this.chooseMappingAttempt(targetFields, columnProfiles || sourceHeaders);
+
+    if ("reason" in attempt) {
+      console.warn(`Token budget exceeded: ${attempt.reason}`);
+      return this.fallbackSuggestion(
+        sourceHeaders,
+        targetFields,
+        `AI mapping was skipped (${attempt.reason})`
+      );
+    }
+
+    const messages: LLMMessage[] = [{ role: "user", content: attempt.prompt }];
+    const notes: string[] = [];
+    const tierNote = TIER_NOTES[attempt.tier];
+    if (tierNote) {
+      notes.push(tierNote.replace("{model}", attempt.model));
+    }
+    let lastError = "";
+
     try {
-      const prompt = `You are a data mapping assistant. Match spreadsheet column headers to CMS field names.
+      // One repair retry if the first response is malformed
+      for (let retry = 0; retry < 2; retry++) {
+        // The retry resends the conversation, so check the budget again
+        if (retry > 0 && !this.isCached({ messages, model: attempt.model, temperature: 0.1 })) {
+          const estimate = this.estimateMappingCall(attempt.model, messages);
+          const budgetCheck = budgetTracker.canMakeCall(
+            estimate.totalTokens,
+            estimate.estimatedCost
+          );
+          if (!budgetCheck.allowed) {
+            console.warn(`Token budget exceeded: ${budgetCheck.reason}`);
+            return this.fallbackSuggestion(
+              sourceHeaders,
+              targetFields,
+              `The AI mapping response was invalid and a retry did not fit the budget (${budgetCheck.reason})`
+            );
+          }
+        }
+
+        const response = await this.complete(
+          {
+            task: "suggestFieldMappings",
+            messages,
+            model: attempt.model,
+            temperature: 0.1,
+            maxTokens: MAPPING_MAX_TOKENS,
+            responseFormat: FIELD_MAPPINGS_RESPONSE_SCHEMA,
+            input: { sourceHeaders, targetFields },
+          },
+          (content) => parseFieldMappingsResponse(content).ok
+        );
+
+        const parsed = parseFieldMappingsResponse(response.content);
+        if (parsed.ok) {
+          if (retry > 0) {
+            notes.push("The AI mapping response was malformed and was repaired on a retry.");
+          }
+          const mappings = this.sanitizeMappings(
+            parsed.data.mappings,
+            sourceHeaders,
+            targetFields,
+            notes
+          );
+          return { mappings, notes, tier: attempt.tier };
+        }
+
+        lastError = parsed.error;
+        messages.push(
+          { role: "assistant", content: response.content },
+          {
+            role: "user",
+            content: `That response was invalid: ${parsed.error}. Reply with ONLY a JSON object of the form {"mappings": [...]} using the structure described above.`,
+          }
+        );
+      }
+
+      return this.fallbackSuggestion(
+        sourceHeaders,
+        targetFields,
+        `The AI mapping response was invalid after a retry (${lastError})`
+      );
+    } catch (error) {
+      console.error("AI mapping failed, using fallback:", error);
+      return this.fallbackSuggestion(
+        sourceHeaders,
+        targetFields,
+        `AI mapping failed (${error instanceof Error ? error.message : "unknown error"})`
+      );
+    }
+  }
+
+  /**
+   * Walk the degradation policy and return the first attempt the budget allows,
+   * or the reason the last one was refused
+   */
+  private chooseMappingAttempt(
+    targetFields: { id: string; name: string; type: string }[],
+    sourceColumns: ColumnProfile[] | string[]
+  ): (MappingAttempt & { prompt: string; estimate: AICallEstimate }) | { reason: string } {
+    const budgetTracker = getTokenBudgetTracker();
+    const fullSamples = Math.max(
+      0,
+      ...sourceColumns.map((c) => (typeof c === "string" ? 0 : c.samples.length))
+    );
+    const cheapestModel = this.provider.economyModel || this.provider.defaultModel;
+
+    const policy: MappingAttempt[] = [
+      { tier: "primary", model: this.provider.defaultModel, maxSamples: fullSamples },
+    ];
+    if (this.provider.economyModel) {
+      policy.push({ tier: "economy", model: this.provider.economyModel, maxSamples: fullSamples });
+    }
+    if (fullSamples > 1) {
+      policy.push({ tier: "reduced", model: cheapestModel, maxSamples: 1 });
+    }
+
+    let reason = "";
+    for (const attempt of policy) {
+      const prompt = this.buildMappingPrompt(targetFields, sourceColumns, attempt.maxSamples);
+      const messages: LLMMessage[] = [{ role: "user", content: prompt }];
+
+      // A cached answer costs nothing, so it is always within budget
+      if (this.isCached({ messages, model: attempt.model, temperature: 0.1 })) {
+        return {
+          ...attempt,
+          prompt,
+          estimate: {
+            promptTokens: 0,
+            maxCompletionTokens: 0,
+            totalTokens: 0,
+            estimatedCost: 0,
+            cached: true,
+          },
+        };
+      }
+
+      const estimate = this.estimateMappingCall(attempt.model, messages);
+      const budgetCheck = budgetTracker.canMakeCall(estimate.totalTokens, estimate.estimatedCost);
+      if (budgetCheck.allowed) {
+        return { ...attempt, prompt, estimate };
+      }
+      reason = budgetCheck.reason || "budget exceeded";
+    }
+
+    return { reason };
+  }
+
+  private buildMappingPrompt(
+    targetFields: { id: string; name: string; type: string }[],
+    sourceColumns: ColumnProfile[] | string[],
+    maxSamples: number
+  ): string {
+    const withProfiles = sourceColumns.some((c) => typeof c !== "string");
+    const columns = sourceColumns.map((c) =>
+      typeof c === "string"
+        ? c
+        : { name: c.name, type: c.inferredType, samples: c.samples.slice(0, maxSamples) }
+    );
+
+    return `You are a data mapping assistant. Match spreadsheet columns to CMS fields.
 
-Source columns: ${JSON.stringify(sourceHeaders)}
+Source columns${withProfiles ? " (with inferred type and sample values)" : ""}: ${JSON.stringify(columns)}
 
 Target fields: ${JSON.stringify(targetFields.map((f) => ({ id: f.id, name: f.name, type: f.type })))}
 
-Return a JSON array of mappings with this structure:
-[
-  {
-    "sourceField": "column name from source",
-    "targetField": "field id from target",
-    "confidence": 0.0 to 1.0,
-    "transformRequired": boolean,
-    "transformDescription": "description if transform needed"
+Return a JSON object with this structure:
+{
+  "mappings": [
+    {
+      "sourceField": "column name from source",
+      "targetField": "field id from target",
+      "confidence": 0.0 to 1.0,
+      "transformRequired": boolean,
+      "transformDescription": "description if transform needed, otherwise null",
+      "transforms": []
+    }
+  ]
+}
+
+When a column needs reshaping to fit its field, set "transforms" to a list of steps applied in order (otherwise an empty list):
+- {"type": "split", "separator": ","} turns text into a list; later steps apply to each item
+- {"type": "join", "separator": ", "} turns a list back into text
+- {"type": "dateFormat", "from": "DD/MM/YYYY", "to": "YYYY-MM-DD"} using YYYY, MM, DD, HH, mm, ss
+- {"type": "case", "to": "upper" | "lower" | "title" | "sentence"}
+- {"type": "slugify"}
+- {"type": "regexReplace", "pattern": "...", "replacement": "...", "flags": "g"}; patterns may not repeat a group that contains a quantifier or alternatives, such as (a+)+ or (a|b)+, nor put overlapping repeats side by side, such as \\d+\\d*
+- {"type": "lookup", "entries": [{"from": "...", "to": "..."}], "keepUnmatched": true}
+- {"type": "parseNumber", "decimalSeparator": "." | ","}
+Only propose transforms the sample values show are needed, and describe them in transformDescription.
+
+Only include mappings where there's a reasonable match. A column may map to more than one field, but map each field at most once. Use the exact column names and field ids given above.
+Judge columns by their sample values as well as their names, and lower confidence when the column's data does not fit the field type.
+Be conservative with confidence scores. Return ONLY the JSON object, no other text.`;
   }
-]
 
-Only include mappings where there's a reasonable match. Be conservative with confidence scores.
-Return ONLY the JSON array, no other text.`;
+  /**
+   * Send a request through the response cache and record its usage. Only
+   * responses that pass `accept` are cached, so malformed output is retried.
+   */
+  private async complete(
+    request: LLMCompletionRequest,
+    accept: (content: string) => boolean
+  ): Promise<LLMCompletionResponse> {
+    const budgetTracker = getTokenBudgetTracker();
+    const cache = getResponseCache();
+    const key = this.cacheKey(request);
+
+    const cached = cache.get(key);
+    if (cached) {
+      budgetTracker.recordCacheHit(cached.model, this.provider.name, request.task);
+      console.log(`📊 Cache hit for ${request.task} | ${budgetTracker.getSummary()}`);
+      return cached;
+    }
+
+    const response = await this.provider.complete(request);
 
-      // Check token budget before making API call
-      const budgetTracker = getTokenBudgetTracker();
-      const budgetCheck = budgetTracker.canMakeCall(2500);
-      if (!budgetCheck.allowed) {
-        console.warn(`Token budget exceeded: ${budgetCheck.reason}`);
-        return this.fallbackFieldMapping(sourceHeaders, targetFields);
+    // Record token usage
+    if (response.usage) {
+      budgetTracker.recordUsage(
+        response.usage.promptTokens,
+        response.usage.completionTokens,
+        response.model,
+        this.provider.name,
+        request.task
+      );
+      console.log(`📊 ${budgetTracker.getSummary()}`);
+    }
+
+    if (accept(response.content)) {
+      cache.set(key, response);
+    }
+    return response;
+  }
+
+  private isCached(request: Pick<LLMCompletionRequest, "messages" | "model" | "temperature">): boolean {
+    return getResponseCache().get(this.cacheKey(request)) !== null;
+  }
+
+  private cacheKey(request: Pick<LLMCompletionRequest, "messages" | "model" | "temperature">): string {
+    return getResponseCache().key({
+      provider: this.provider.name,
+      model: request.model || this.provider.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature,
+    });
+  }
+
+  /**
+   * Tokenized prompt size plus the full response allowance, and what that would cost
+   */
+  private estimateMappingCall(model: string, messages: LLMMessage[]): AICallEstimate {
+    const tokens = estimateCallTokens(messages, MAPPING_MAX_TOKENS);
+    return {
+      ...tokens,
+      estimatedCost: estimateCallCost(
+        this.provider.name,
+        model,
+        tokens.promptTokens,
+        tokens.maxCompletionTokens
+      ),
+    };
+  }
+
+  /**
+   * Drop mappings that reference unknown columns or fields, clamp confidence
+   * and keep only the first mapping per column
+   */
+  private sanitizeMappings(
+    mappings: {
+      sourceField: string;
+      targetField: string;
+      confidence: number;
+      transformRequired?: boolean;
+      transformDescription?: string | null;
+      transforms?: unknown[] | null;
+    }[],
+    sourceHeaders: string[],
+    targetFields: { id: string }[],
+    notes: string[]
+  ): FieldMapping[] {
+    const result: FieldMapping[] = [];
+
+    for (const mapping of mappings) {
+      if (!sourceHeaders.includes(mapping.sourceField)) {
+        notes.push(`Ignored an AI mapping for unknown column "${mapping.sourceField}".`);
+        continue;
+      }
+      if (!targetFields.some((f) => f.id === mapping.targetField)) {
+        notes.push(
+          `Ignored an AI mapping of "${mapping.sourceField}" to unknown field "${mapping.targetField}".`
+        );
+        continue;
+      }
+      // A column may feed several fields, but each field takes one column
+      if (result.some((m) => m.targetField === mapping.targetField)) {
+        continue;
       }
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.1,
-        max_tokens: 2000,
+      result.push({
+        sourceField: mapping.sourceField,
+        targetField: mapping.targetField,
+        confidence: Number.isFinite(mapping.confidence)
+          ? Math.min(1, Math.max(0, mapping.confidence))
+          : 0,
+        transformRequired: mapping.transformRequired,
+        transformDescription: mapping.transformDescription || undefined,
+        transforms: this.sanitizeTransforms(mapping.sourceField, mapping.transforms, notes),
       });
+    }
 
-      // Record token usage
-      if (response.usage) {
-        budgetTracker.recordUsage(
-          response.usage.prompt_tokens,
-          response.usage.completion_tokens,
-          "gpt-4o"
-        );
-        console.log(`📊 ${budgetTracker.getSummary()}`);
+    return result;
+  }
+
+  /**
+   * Keep the proposed transform steps that are well-formed and runnable
+   */
+  private sanitizeTransforms(
+    sourceField: string,
+    steps: unknown[] | null | undefined,
+    notes: string[]
+  ): TransformStep[] | undefined {
+    const result: TransformStep[] = [];
+
+    for (const raw of steps || []) {
+      const parsed = transformStepSchema.safeParse(raw);
+      const problem = parsed.success ? checkTransformStep(parsed.data) : "unrecognized step";
+      if (!parsed.success || problem) {
+        notes.push(`Ignored an AI transform for column "${sourceField}" (${problem}).`);
+        continue;
       }
+      result.push(parsed.data);
+    }
 
-      const content = response.choices[0]?.message?.content?.trim();
-      if (!content) {
-        return this.fallbackFieldMapping(sourceHeaders, targetFields);
+    return result.length > 0 ? result : undefined;
+  }
+
+  /**
+   * Lower confidence of mappings whose column data doesn't fit the field type
+   */
+  private flagTypeMismatches(
+    mappings: FieldMapping[],
+    columnProfiles: ColumnProfile[],
+    targetFields: ContentfulContentType["fields"],
+    warnings: ValidationWarning[]
+  ): FieldMapping[] {
+    return mappings.map((mapping) => {
+      const profile = mapping.template
+        ? undefined
+        : columnProfiles.find((c) => c.name === mapping.sourceField);
+      const field = targetFields.find((f) => f.id === mapping.targetField);
+      if (!profile || !field || isTypeCompatible(profile.inferredType, field)) {
+        return mapping;
       }
 
-      // Parse JSON response
-      const mappings = JSON.parse(content) as FieldMapping[];
-      return mappings;
-    } catch (error) {
-      console.error("AI mapping failed, using fallback:", error);
-      return this.fallbackFieldMapping(sourceHeaders, targetFields);
-    }
+      warnings.push({
+        field: mapping.sourceField,
+        message: `Column "${mapping.sourceField}" looks like ${profile.inferredType} data but "${field.name}" is a ${field.type} field`,
+      });
+      return { ...mapping, confidence: Math.min(mapping.confidence, 0.3) };
+    });
+  }
+
+  /**
+   * Name-matching mappings plus a note explaining why AI mapping wasn't used
+   */
+  private fallbackSuggestion(
+    sourceHeaders: string[],
+    targetFields: { id: string; name: string }[],
+    reason: string
+  ): FieldMappingSuggestion {
+    return {
+      mappings: this.fallbackFieldMapping(sourceHeaders, targetFields),
+      notes: [`${reason}. Columns were matched by name instead; please review the mappings.`],
+      tier: "fallback",
+    };
   }
 
   /**
@@ -170,107 +642,152 @@ Return ONLY the JSON array, no other text.`;
     sourceHeaders: string[],
     targetFields: { id: string; name: string }[]
   ): FieldMapping[] {
-    const mappings: FieldMapping[] = [];
-
-    for (const header of sourceHeaders) {
-      const normalizedHeader = header.toLowerCase().replace(/[^a-z0-9]/g, "");
-
-      for (const field of targetFields) {
-        const normalizedId = field.id.toLowerCase().replace(/[^a-z0-9]/g, "");
-        const normalizedName = field.name.toLowerCase().replace(/[^a-z0-9]/g, "");
-
-        if (
-          normalizedHeader === normalizedId ||
-          normalizedHeader === normalizedName
-        ) {
-          mappings.push({
-            sourceField: header,
-            targetField: field.id,
-            confidence: 0.8,
-          });
-          break;
+    return matchFieldsByName(sourceHeaders, targetFields);
+  }
+
+  /**
+   * Translate field values into other locales. Values are sent in batches,
+   * each checked against the token budget; when the budget runs out the
+   * values translated so far are returned with a note.
+   */
+  async translateFields(request: TranslationRequest): Promise<TranslationResult> {
+    const translations: FieldTranslations[] = [];
+    const notes: string[] = [];
+    let untranslated = 0;
+    let stopped = false;
+
+    for (const field of request.fields) {
+      const texts = Array.from(new Set(field.texts.map((t) => t.trim()).filter((t) => t !== "")));
+
+      for (const locale of request.targetLocales) {
+        if (stopped) break;
+        const values: Record<string, string> = {};
+
+        for (const batch of this.translationBatches(texts)) {
+          const outcome = await this.translateBatch(batch, field.name, request.sourceLocale, locale);
+          if ("reason" in outcome) {
+            notes.push(outcome.reason);
+            stopped = outcome.stop;
+            if (stopped) break;
+            untranslated += batch.length;
+            continue;
+          }
+          Object.assign(values, outcome.values);
+          untranslated += batch.length - Object.keys(outcome.values).length;
         }
 
-        // Partial match
-        if (
-          normalizedHeader.includes(normalizedId) ||
-          normalizedId.includes(normalizedHeader) ||
-          normalizedHeader.includes(normalizedName) ||
-          normalizedName.includes(normalizedHeader)
-        ) {
-          mappings.push({
-            sourceField: header,
-            targetField: field.id,
-            confidence: 0.5,
-          });
-          break;
+        if (Object.keys(values).length > 0) {
+          translations.push({ field: field.id, sourceLocale: request.sourceLocale, locale, values });
         }
       }
     }
 
-    return mappings;
+    if (stopped) {
+      notes.push("Values that weren't translated before the budget ran out will be left empty.");
+    } else if (untranslated > 0) {
+      notes.push(`${untranslated} values could not be translated and will be left empty.`);
+    }
+    return { translations, notes };
   }
 
   /**
-   * Validate a single field value
+   * Split texts into batches that fit the per-request token allowance
    */
-  private validateFieldValue(
-    value: any,
-    field: { id: string; name: string; type: string; required: boolean },
-    rowNumber: number,
-    sourceField: string
-  ): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    // Check required
-    if (field.required && (value === null || value === undefined || value === "")) {
-      errors.push({
-        row: rowNumber,
-        field: sourceField,
-        message: `Required field "${field.name}" is empty`,
-        value,
-      });
-      return errors;
+  private translationBatches(texts: string[]): string[][] {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let tokens = 0;
+
+    for (const text of texts) {
+      const size = countPromptTokens([{ role: "user", content: text }]);
+      const full =
+        tokens + size > TRANSLATION_BATCH_TOKENS || batch.length >= TRANSLATION_BATCH_SIZE;
+      if (batch.length > 0 && full) {
+        batches.push(batch);
+        batch = [];
+        tokens = 0;
+      }
+      batch.push(text);
+      tokens += size;
     }
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
 
-    // Type validation
-    if (value !== null && value !== undefined && value !== "") {
-      switch (field.type) {
-        case "Integer":
-          if (!Number.isInteger(Number(value))) {
-            errors.push({
-              row: rowNumber,
-              field: sourceField,
-              message: `"${field.name}" should be a whole number`,
-              value,
-            });
-          }
-          break;
-        case "Number":
-          if (isNaN(Number(value))) {
-            errors.push({
-              row: rowNumber,
-              field: sourceField,
-              message: `"${field.name}" should be a number`,
-              value,
-            });
-          }
-          break;
-        case "Boolean":
-          const boolStr = String(value).toLowerCase();
-          if (!["true", "false", "yes", "no", "1", "0"].includes(boolStr)) {
-            errors.push({
-              row: rowNumber,
-              field: sourceField,
-              message: `"${field.name}" should be a boolean value`,
-              value,
-            });
-          }
-          break;
+  /**
+   * Translate one batch. A budget refusal stops the whole run; a failed
+   * or malformed response only skips this batch.
+   */
+  private async translateBatch(
+    texts: string[],
+    fieldName: string,
+    sourceLocale: string,
+    targetLocale: string
+  ): Promise<{ values: Record<string, string> } | { reason: string; stop: boolean }> {
+    const prompt = `Translate these values of the content field "${fieldName}" from ${sourceLocale} to ${targetLocale}.
+Keep markdown, HTML, URLs, placeholders such as {name} and product codes unchanged, and keep the tone and approximate length.
+
+Values:
+${JSON.stringify(texts.map((text, index) => ({ index, text })))}
+
+Reply with JSON {"translations": [{"index": number, "text": "translation"}]} containing one entry per value, using the same index.`;
+
+    const messages: LLMMessage[] = [{ role: "user", content: prompt }];
+    const maxTokens =
+      countPromptTokens([{ role: "user", content: texts.join("\n") }]) * TRANSLATION_EXPANSION + 100;
+
+    if (!this.isCached({ messages, temperature: 0.2 })) {
+      const estimate = estimateCallTokens(messages, maxTokens);
+      const budgetCheck = getTokenBudgetTracker().canMakeCall(
+        estimate.totalTokens,
+        estimateCallCost(
+          this.provider.name,
+          this.provider.defaultModel,
+          estimate.promptTokens,
+          estimate.maxCompletionTokens
+        )
+      );
+      if (!budgetCheck.allowed) {
+        return { reason: `AI translation was stopped (${budgetCheck.reason}).`, stop: true };
       }
     }
 
-    return errors;
+    try {
+      const response = await this.complete(
+        {
+          task: "translateValues",
+          messages,
+          temperature: 0.2,
+          maxTokens,
+          responseFormat: TRANSLATIONS_RESPONSE_SCHEMA,
+          input: { texts, targetLocale },
+        },
+        (content) => parseTranslationsResponse(content).ok
+      );
+
+      const parsed = parseTranslationsResponse(response.content);
+      if (!parsed.ok) {
+        return {
+          reason: `An AI translation response for ${targetLocale} was invalid (${parsed.error}).`,
+          stop: false,
+        };
+      }
+
+      const values: Record<string, string> = {};
+      for (const { index, text } of parsed.data.translations) {
+        if (texts[index] !== undefined && text.trim() !== "") {
+          values[texts[index]] = text.trim();
+        }
+      }
+      return { values };
+    } catch (error) {
+      return {
+        reason: `AI translation to ${targetLocale} failed (${error instanceof Error ? error.message : "unknown error"}).`,
+        stop: false,
+      };
+    }
   }
 
   /**
@@ -278,39 +795,52 @@ Return ONLY the JSON array, no other text.`;
    */
   async suggestContentImprovements(content: string): Promise<string[]> {
     try {
-      // Check token budget before making API call
-      const budgetTracker = getTokenBudgetTracker();
-      const budgetCheck = budgetTracker.canMakeCall(1000);
+      const messages: LLMMessage[] = [
+        {
+          role: "system",
+          content:
+            "You are a content editor. Suggest brief improvements for the given content. Return a JSON array of suggestion strings.",
+        },
+        { role: "user", content },
+      ];
+      const maxTokens = 500;
+
+      // Check token budget before making API call (cached answers are free)
+      const estimate = estimateCallTokens(messages, maxTokens);
+      const budgetCheck = this.isCached({ messages, temperature: 0.7 })
+        ? { allowed: true, reason: undefined }
+        : getTokenBudgetTracker().canMakeCall(
+            estimate.totalTokens,
+            estimateCallCost(
+              this.provider.name,
+              this.provider.defaultModel,
+              estimate.promptTokens,
+              estimate.maxCompletionTokens
+            )
+          );
       if (!budgetCheck.allowed) {
         console.warn(`Token budget exceeded: ${budgetCheck.reason}`);
         return [];
       }
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a content editor. Suggest brief improvements for the given content. Return a JSON array of suggestion strings.",
-          },
-          { role: "user", content },
-        ],
-        temperature: 0.7,
-        max_tokens: 500,
-      });
-
-      // Record token usage
-      if (response.usage) {
-        budgetTracker.recordUsage(
-          response.usage.prompt_tokens,
-          response.usage.completion_tokens,
-          "gpt-4o"
-        );
-        console.log(`📊 ${budgetTracker.getSummary()}`);
-      }
+      const response = await this.complete(
+        {
+          task: "suggestContentImprovements",
+          messages,
+          temperature: 0.7,
+          maxTokens,
+          input: content,
+        },
+        (result) => {
+          try {
+            return Array.isArray(JSON.parse(result));
+          } catch {
+            return false;
+          }
+        }
+      );
 
-      const result = response.choices[0]?.message?.content?.trim();
+      const result = response.content;
       if (result) {
         return JSON.parse(result);
       }
@@ -322,6 +852,6 @@ Return ONLY the JSON array, no other text.`;
 }
 
 // Factory function
-export function createAIValidationService(): AIValidationService {
-  return new AIValidationService();
+export function createAIValidationService(provider?: LLMProvider): AIValidationService {
+  return new AIValidationService(provider);
 }
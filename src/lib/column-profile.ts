@@ -0,0 +1,132 @@
+/**
+ * Column Profiling
+ * Summarizes each spreadsheet column with an inferred type and a few
+ * representative, de-duplicated sample values for the AI mapping prompt.
+ */
+
+import type { CoercionRules, ContentRow, ContentfulField } from "@/types";
+import { coerceValue, DEFAULT_COERCION_RULES } from "./value-coercion";
+
+export type ColumnType =
+  | "empty"
+  | "boolean"
+  | "integer"
+  | "number"
+  | "date"
+  | "location"
+  | "email"
+  | "url"
+  | "list"
+  | "text"
+  | "string";
+
+export interface ColumnProfile {
+  name: string;
+  inferredType: ColumnType;
+  samples: string[];
+}
+
+interface ProfileOptions {
+  maxSamples?: number;
+  maxValueLength?: number;
+  maxScannedRows?: number;
+  rules?: CoercionRules;
+}
+
+// Rough token cost of one sample value in the prompt
+const TOKENS_PER_SAMPLE = 10;
+
+/**
+ * Profile every column, scanning rows spread across the whole file
+ */
+export function profileColumns(
+  headers: string[],
+  rows: ContentRow[],
+  options: ProfileOptions = {}
+): ColumnProfile[] {
+  const maxSamples = options.maxSamples ?? 5;
+  const maxValueLength = options.maxValueLength ?? 60;
+  const maxScannedRows = options.maxScannedRows ?? 1000;
+
+  // Evenly spaced rows so samples represent the file, not just its head
+  const step = Math.max(1, Math.floor(rows.length / maxScannedRows));
+  const scanned: ContentRow[] = [];
+  for (let i = 0; i < rows.length && scanned.length < maxScannedRows; i += step) {
+    scanned.push(rows[i]);
+  }
+
+  return headers.map((name) => {
+    const values = scanned
+      .map((row) => row[name])
+      .filter((v) => v !== null && v !== undefined && String(v).trim() !== "");
+
+    const distinct: string[] = [];
+    for (const value of values) {
+      const text = String(value).trim();
+      const truncated =
+        text.length > maxValueLength ? `${text.slice(0, maxValueLength)}…` : text;
+      if (!distinct.includes(truncated)) {
+        distinct.push(truncated);
+      }
+      if (distinct.length >= maxSamples) break;
+    }
+
+    return {
+      name,
+      inferredType: inferColumnType(values, options.rules || DEFAULT_COERCION_RULES),
+      samples: distinct,
+    };
+  });
+}
+
+/**
+ * How many samples per column fit in the given prompt token allowance (0–5)
+ */
+export function samplesPerColumn(columnCount: number, tokenAllowance: number): number {
+  if (columnCount === 0 || tokenAllowance <= 0) return 0;
+  return Math.max(0, Math.min(5, Math.floor(tokenAllowance / (columnCount * TOKENS_PER_SAMPLE))));
+}
+
+/**
+ * Whether a column of the inferred type can reasonably feed the field
+ */
+export function isTypeCompatible(columnType: ColumnType, field: Pick<ContentfulField, "type">): boolean {
+  if (columnType === "empty") return true;
+
+  switch (field.type) {
+    case "Boolean":
+      return columnType === "boolean";
+    case "Integer":
+      return columnType === "integer" || columnType === "boolean";
+    case "Number":
+      return columnType === "integer" || columnType === "number" || columnType === "boolean";
+    case "Date":
+      return columnType === "date" || columnType === "integer";
+    case "Location":
+      return columnType === "location";
+    default:
+      return true;
+  }
+}
+
+function inferColumnType(values: ContentRow[string][], rules: CoercionRules): ColumnType {
+  if (values.length === 0) return "empty";
+
+  const all = (type: string) =>
+    values.every((v) => coerceValue(v, { name: "", type }, rules).ok);
+  const texts = values.map((v) => String(v).trim());
+
+  // 0/1 columns count as booleans; they stay compatible with Integer fields
+  if (all("Boolean")) return "boolean";
+  if (all("Integer")) return "integer";
+  if (all("Number")) return "number";
+  if (all("Date")) return "date";
+  if (all("Location")) return "location";
+  if (texts.every((t) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(t))) return "email";
+  if (texts.every((t) => /^(https?:\/\/|\/)\S+$/.test(t))) return "url";
+
+  const averageLength = texts.reduce((sum, t) => sum + t.length, 0) / texts.length;
+  if (averageLength > 100) return "text";
+  if (texts.filter((t) => /[,;|]/.test(t)).length > texts.length / 2) return "list";
+  return "string";
+}
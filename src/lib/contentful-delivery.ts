@@ -51,6 +51,8 @@ export async function fetchContentTypes() {
       required: field.required || false,
       localized: field.localized || false,
       validations: field.validations || [],
+      linkType: field.linkType,
+      items: field.items,
     })),
   }));
 }
@@ -71,6 +73,8 @@ export async function fetchContentType(contentTypeId: string) {
       required: field.required || false,
       localized: field.localized || false,
       validations: field.validations || [],
+      linkType: field.linkType,
+      items: field.items,
     })),
   };
 }
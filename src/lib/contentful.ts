@@ -1,19 +1,84 @@
+import crypto from "crypto";
 import { createClient } from "contentful-management";
+import type { Asset, Entry, Environment } from "contentful-management";
+import { coerceValue, resolveCoercionRules, splitList } from "./value-coercion";
+import { applyTransforms } from "./transforms";
+import { checkFieldValidations, requiresUnique } from "./field-validations";
+import { getSourceValue, mappingKey, mappingLabel } from "./mapping-values";
+import { applyTranslations } from "./translation";
+import { findMediaFile, mediaAssetId, splitMediaValues } from "./media-files";
+import { loadMediaBundle, readMediaFile } from "./media-bundle";
+import { errorStatus, RateLimitGate, runWithConcurrency, withRetry } from "./rate-limit";
 import type {
   ContentfulContentType,
   ContentfulField,
+  ContentfulLocale,
   ImportConfig,
   ImportResult,
   ImportError,
   ImportedEntry,
   ContentRow,
   FieldMapping,
+  CoercionRules,
+  MediaBundle,
+  MediaFile,
+  RowCheckpoint,
+  EntrySnapshot,
+  RollbackIssue,
+  RollbackTarget,
+  TakenValue,
 } from "@/types";
 
+// Per reference or media mapping: trimmed cell value -> linked entry or asset id
+type ReferenceIndex = Map<string, Map<string, string>>;
+
+// Progress of an import run, so an interrupted run can pick up where it stopped
+export interface ImportCheckpoint {
+  // Latest checkpoint of each row from earlier attempts, by row number
+  previous: Map<number, RowCheckpoint>;
+  record: (checkpoint: RowCheckpoint) => void;
+}
+
+export interface ImportOptions {
+  mediaBundleId?: string;
+  checkpoint?: ImportCheckpoint;
+  // Build and check every payload, and predict creates and updates, without writing anything
+  dryRun?: boolean;
+}
+
+// Rows written at once; the rate-limit gate keeps them under the space's request limit
+const IMPORT_CONCURRENCY = Math.max(1, parseInt(process.env.CONTENTFUL_IMPORT_CONCURRENCY || "5", 10) || 5);
+
+const ENTRY_ID_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Row fields over an entry's fields, per locale: locales the row doesn't
+// write keep their values
+function mergeFields(
+  existing: Record<string, any>,
+  fields: Record<string, any>
+): Record<string, any> {
+  const merged = { ...existing };
+  for (const [fieldId, values] of Object.entries(fields)) {
+    merged[fieldId] = { ...existing[fieldId], ...values };
+  }
+  return merged;
+}
+
+// Identifies a value of a unique field in one locale
+function uniqueKey(fieldId: string, locale: string, value: unknown): string {
+  return `${fieldId}\u0000${locale}\u0000${String(value).trim()}`;
+}
+
+// A random 22-character ID, the same shape as the ones Contentful generates
+function newEntryId(): string {
+  return Array.from(crypto.randomBytes(22), (b) => ENTRY_ID_ALPHABET[b % 62]).join("");
+}
+
 export class ContentfulService {
   private client;
   private spaceId: string;
   private environmentId: string;
+  private rateLimit = new RateLimitGate();
 
   constructor() {
     const managementToken = process.env.CONTENTFUL_MANAGEMENT_TOKEN;
@@ -26,7 +91,12 @@ export class ContentfulService {
       );
     }
 
-    this.client = createClient({ accessToken: managementToken });
+    // Retries are done by call() so they can be counted and share the rate-limit pause
+    this.client = createClient({
+      accessToken: managementToken,
+      retryOnError: false,
+      responseLogger: this.rateLimit.observe,
+    });
     this.spaceId = spaceId;
     this.environmentId = environmentId;
   }
@@ -36,9 +106,8 @@ export class ContentfulService {
    */
   async getContentTypes(): Promise<ContentfulContentType[]> {
     try {
-      const space = await this.client.getSpace(this.spaceId);
-      const environment = await space.getEnvironment(this.environmentId);
-      const contentTypes = await environment.getContentTypes();
+      const environment = await this.getEnvironment();
+      const contentTypes = await this.call(() => environment.getContentTypes());
 
       return contentTypes.items.map((ct) => ({
         id: ct.sys.id,
@@ -51,6 +120,8 @@ export class ContentfulService {
           required: field.required || false,
           localized: field.localized || false,
           validations: field.validations,
+          linkType: field.linkType,
+          items: field.items,
         })),
       }));
     } catch (error) {
@@ -65,9 +136,8 @@ export class ContentfulService {
    */
   async getContentType(contentTypeId: string): Promise<ContentfulContentType | null> {
     try {
-      const space = await this.client.getSpace(this.spaceId);
-      const environment = await space.getEnvironment(this.environmentId);
-      const contentType = await environment.getContentType(contentTypeId);
+      const environment = await this.getEnvironment();
+      const contentType = await this.call(() => environment.getContentType(contentTypeId));
 
       return {
         id: contentType.sys.id,
@@ -80,6 +150,8 @@ export class ContentfulService {
           required: field.required || false,
           localized: field.localized || false,
           validations: field.validations,
+          linkType: field.linkType,
+          items: field.items,
         })),
       };
     } catch (error) {
@@ -88,61 +160,269 @@ export class ContentfulService {
   }
 
   /**
-   * Import rows into Contentful
+   * Import rows into Contentful. With a checkpoint, rows written by an
+   * earlier attempt are skipped and every write is recorded as it happens.
+   * A dry run only reads: the result predicts what the import would do.
    */
   async importContent(
     rows: ContentRow[],
-    config: ImportConfig
+    config: ImportConfig,
+    options: ImportOptions = {}
   ): Promise<ImportResult> {
+    const { mediaBundleId, checkpoint, dryRun = false } = options;
     const result: ImportResult = {
       success: true,
       totalProcessed: 0,
       created: 0,
       updated: 0,
       failed: 0,
+      retried: 0,
+      retries: 0,
       errors: [],
       entries: [],
     };
 
     try {
-      const space = await this.client.getSpace(this.spaceId);
-      const environment = await space.getEnvironment(this.environmentId);
+      const environment = await this.getEnvironment();
+      const locale = config.locale || "en-US";
+      const upsert = config.mode === "upsert";
+
+      if (upsert && !config.matchField) {
+        throw new Error("Upsert mode requires a match field");
+      }
+
+      const contentType = await this.getContentType(config.contentTypeId);
+      if (!contentType) {
+        throw new Error(`Content type "${config.contentTypeId}" not found`);
+      }
+
+      // Non-localized fields only take the space's default locale
+      const locales = (await this.call(() => environment.getLocales())).items;
+      const defaultLocale = locales.find((l) => l.default)?.code || locale;
+      for (const mapping of config.fieldMappings) {
+        if (mapping.locale && !locales.some((l) => l.code === mapping.locale)) {
+          throw new Error(
+            `Locale "${mapping.locale}" of column "${mappingLabel(mapping)}" does not exist in this space`
+          );
+        }
+      }
+      for (const translation of config.translations || []) {
+        if (!locales.some((l) => l.code === translation.locale)) {
+          throw new Error(`Translation locale "${translation.locale}" does not exist in this space`);
+        }
+      }
+
+      // Resolve every reference up front so nothing is written if any are missing
+      const references = await this.resolveReferences(environment, rows, config, contentType);
+      if (references.errors.length > 0) {
+        result.success = false;
+        result.errors.push(...references.errors);
+        result.failed = new Set(references.errors.map((e) => e.row)).size;
+        return result;
+      }
+
+      // Likewise, every media file must be found and uploaded before entries are written
+      const assets = await this.resolveAssets(
+        environment,
+        rows,
+        config,
+        contentType,
+        mediaBundleId,
+        defaultLocale,
+        dryRun
+      );
+      if (assets.errors.length > 0) {
+        result.success = false;
+        result.errors.push(...assets.errors);
+        result.failed = new Set(assets.errors.map((e) => e.row)).size;
+        return result;
+      }
+      assets.index.forEach((ids, key) => references.index.set(key, ids));
+
+      const matchLocale = upsert ? this.getMatchLocale(config, contentType, defaultLocale) : locale;
+      const existingEntries = upsert
+        ? await this.findExistingEntries(environment, rows, config, contentType, references.index, defaultLocale)
+        : new Map<string, Entry>();
+
+      if (dryRun) {
+        result.dryRun = true;
+        result.warnings = [];
+        const requiredLocales = locales.filter((l) => l.default || !l.optional).map((l) => l.code);
+        const takenValues = await this.findTakenUniqueValues(
+          environment,
+          rows,
+          config,
+          contentType,
+          references.index,
+          defaultLocale
+        );
+        this.predictRows(rows, config, contentType, references.index, existingEntries, {
+          defaultLocale,
+          matchLocale,
+          requiredLocales,
+          takenValues,
+          result,
+        });
+        result.success = result.failed === 0;
+        return result;
+      }
+
+      // Rows that upsert the same entry run one after another, in file order;
+      // everything else runs concurrently
+      const groups = new Map<string, number[]>();
+      rows.forEach((row, i) => {
+        let key = `row:${i}`;
+        if (upsert) {
+          try {
+            const fields = this.mapRowToFields(row, config, contentType, references.index, defaultLocale);
+            const matchKey = this.getMatchKey(fields, config.matchField!, matchLocale);
+            if (matchKey !== null) key = `match:${matchKey}`;
+          } catch {
+            // Mapping errors are reported when the row is imported
+          }
+        }
+        groups.set(key, [...(groups.get(key) || []), i]);
+      });
 
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
+      const importRow = async (i: number) => {
         const rowNumber = i + 2; // Account for header row and 0-indexing
+        const previous = checkpoint?.previous.get(rowNumber);
 
-        try {
-          const fields = this.mapRowToFields(row, config);
-          
-          // Create entry
-          const entry = await environment.createEntry(config.contentTypeId, {
-            fields,
+        if (previous?.status === "written" && previous.entryId) {
+          // Written by an earlier attempt of this run
+          const action = previous.action || "created";
+          result[action]++;
+          result.resumedRows = (result.resumedRows || 0) + 1;
+          result.entries.push({
+            row: rowNumber,
+            entryId: previous.entryId,
+            contentType: config.contentTypeId,
+            action,
+            status: previous.published ? "published" : "draft",
           });
+          result.totalProcessed++;
+          return;
+        }
+
+        let retries = 0;
+        const onRetry = () => {
+          retries++;
+          result.retries++;
+        };
+        let entryId: string | undefined;
+        let action: "created" | "updated" | undefined;
+        let snapshot: EntrySnapshot | undefined;
+
+        try {
+          const fields = this.mapRowToFields(rows[i], config, contentType, references.index, defaultLocale);
+          const matchKey = upsert
+            ? this.getMatchKey(fields, config.matchField!, matchLocale)
+            : null;
+
+          if (upsert && matchKey === null) {
+            throw new Error(
+              `Match field "${config.matchField}" is empty, cannot determine which entry to update`
+            );
+          }
+
+          const existing = matchKey !== null ? existingEntries.get(matchKey) : undefined;
+          let entry: Entry;
+
+          action = existing ? "updated" : "created";
+          // An entry created by an earlier attempt keeps its ID, so retrying doesn't duplicate it
+          entryId = existing
+            ? existing.sys.id
+            : previous?.action === "created" && previous.entryId
+              ? previous.entryId
+              : newEntryId();
+          if (existing) {
+            // Kept for rolling back; an earlier attempt's snapshot predates any update it made
+            snapshot =
+              previous?.snapshot && previous.entryId === existing.sys.id
+                ? previous.snapshot
+                : {
+                    fields: JSON.parse(JSON.stringify(existing.fields)),
+                    published: existing.isPublished(),
+                  };
+          }
+          checkpoint?.record({ row: rowNumber, status: "pending", entryId, action, snapshot });
+
+          if (existing) {
+            // Update existing entry; the SDK sends sys.version so concurrent edits are rejected
+            existing.fields = mergeFields(existing.fields, fields);
+            entry = await this.call(() => existing.update(), onRetry);
+          } else {
+            entry = await this.createEntry(environment, config.contentTypeId, entryId, fields, onRetry);
+          }
 
           // Publish if configured
           if (config.publishImmediately) {
-            await entry.publish();
+            const draft = entry;
+            entry = await this.call(() => draft.publish(), onRetry);
+          }
+
+          // Later rows with the same key update this entry instead of duplicating it
+          if (matchKey !== null) {
+            existingEntries.set(matchKey, entry);
           }
 
-          result.created++;
+          if (existing) {
+            result.updated++;
+          } else {
+            result.created++;
+          }
+          if (retries > 0) {
+            result.retried++;
+          }
           result.entries.push({
             row: rowNumber,
             entryId: entry.sys.id,
             contentType: config.contentTypeId,
-            action: "created",
+            action,
             status: config.publishImmediately ? "published" : "draft",
+            retries: retries > 0 ? retries : undefined,
+          });
+          checkpoint?.record({
+            row: rowNumber,
+            status: "written",
+            entryId: entry.sys.id,
+            action,
+            published: config.publishImmediately,
+            retries: retries > 0 ? retries : undefined,
+            version: entry.sys.version,
+            snapshot,
           });
         } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
           result.failed++;
           result.errors.push({
             row: rowNumber,
-            message: error instanceof Error ? error.message : "Unknown error",
+            message,
+            details: retries > 0 ? `Gave up after ${retries} retries` : undefined,
+          });
+          checkpoint?.record({
+            row: rowNumber,
+            status: "failed",
+            entryId,
+            action,
+            message,
+            retries: retries > 0 ? retries : undefined,
+            snapshot,
           });
         }
 
         result.totalProcessed++;
-      }
+      };
+
+      await runWithConcurrency(Array.from(groups.values()), IMPORT_CONCURRENCY, async (group) => {
+        for (const i of group) {
+          await importRow(i);
+        }
+      });
+
+      // Workers finish out of order
+      result.entries.sort((a, b) => a.row - b.row);
+      result.errors.sort((a, b) => a.row - b.row);
 
       result.success = result.failed === 0;
     } catch (error) {
@@ -157,46 +437,822 @@ export class ContentfulService {
   }
 
   /**
-   * Map a spreadsheet row to Contentful fields
+   * Dry run of the row loop: build each row's payload as the import would,
+   * including the fields an update keeps, and check it against the content
+   * type. Rows are taken in file order, so a later row with the same match
+   * value is predicted to update the entry an earlier row creates. Checks
+   * Contentful only makes on publish fail the row when the import publishes,
+   * and are warnings for a draft import.
+   */
+  private predictRows(
+    rows: ContentRow[],
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    references: ReferenceIndex,
+    existingEntries: Map<string, Entry>,
+    context: {
+      defaultLocale: string;
+      matchLocale: string;
+      // Locales a required field needs a value in before the entry can be published
+      requiredLocales: string[];
+      // Entries already holding values of unique fields, by uniqueKey
+      takenValues: Map<string, string>;
+      result: ImportResult;
+    }
+  ): void {
+    const { defaultLocale, matchLocale, requiredLocales, takenValues, result } = context;
+    const upsert = config.mode === "upsert";
+
+    // Entries by match value as they would be after each row: id ("" until created) and fields
+    const entries = new Map<string, { id: string; fields: Record<string, any> }>();
+    existingEntries.forEach((entry, key) => entries.set(key, { id: entry.sys.id, fields: entry.fields }));
+    // First row in the file giving each value of a unique field, by uniqueKey
+    const uniqueValues = new Map<string, { entry: string; row: number }>();
+
+    rows.forEach((row, i) => {
+      const rowNumber = i + 2; // Account for header row and 0-indexing
+      const problems: string[] = [];
+      const warnings: string[] = [];
+      let action: "created" | "updated" = "created";
+      let entryId = "";
+
+      try {
+        const fields = this.mapRowToFields(row, config, contentType, references, defaultLocale);
+        const matchKey = upsert ? this.getMatchKey(fields, config.matchField!, matchLocale) : null;
+
+        if (upsert && matchKey === null) {
+          throw new Error(
+            `Match field "${config.matchField}" is empty, cannot determine which entry to update`
+          );
+        }
+
+        const existing = matchKey !== null ? entries.get(matchKey) : undefined;
+        const payload = existing ? mergeFields(existing.fields, fields) : fields;
+        if (existing) {
+          action = "updated";
+          entryId = existing.id;
+        }
+
+        for (const fieldId of Object.keys(fields)) {
+          if (!contentType.fields.some((f) => f.id === fieldId)) {
+            problems.push(`Field "${fieldId}" does not exist on content type "${contentType.id}"`);
+          }
+        }
+
+        // Contentful checks required fields, validations and uniqueness when an
+        // entry is published; drafts are saved as they are
+        const publishChecks = this.publishProblems(payload, config, contentType, requiredLocales, defaultLocale);
+        for (const field of contentType.fields.filter((f) => requiresUnique(f))) {
+          for (const [locale, value] of Object.entries(payload[field.id] || {})) {
+            if (value === null || value === undefined || value === "") continue;
+
+            const key = uniqueKey(field.id, locale, value);
+            const holder = takenValues.get(key);
+            if (holder !== undefined && holder !== entryId) {
+              publishChecks.push(
+                `"${field.name}" must be unique (unique), entry ${holder} already has the same ${locale} value`
+              );
+            }
+
+            const entry = matchKey !== null ? `match:${matchKey}` : `row:${i}`;
+            const first = uniqueValues.get(key);
+            if (!first) {
+              uniqueValues.set(key, { entry, row: rowNumber });
+            } else if (first.entry !== entry) {
+              publishChecks.push(
+                `"${field.name}" must be unique (unique), the same ${locale} value is also used in row ${first.row}`
+              );
+            }
+          }
+        }
+        (config.publishImmediately ? problems : warnings).push(...publishChecks);
+
+        if (matchKey !== null && problems.length === 0) {
+          entries.set(matchKey, { id: entryId, fields: payload });
+        }
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : "Unknown error");
+      }
+
+      if (problems.length > 0) {
+        result.failed++;
+        result.errors.push(...problems.map((message) => ({ row: rowNumber, message })));
+      } else {
+        result.warnings?.push(...warnings.map((message) => ({ row: rowNumber, message })));
+        result[action]++;
+        result.entries.push({
+          row: rowNumber,
+          entryId,
+          contentType: config.contentTypeId,
+          action,
+          status: config.publishImmediately ? "published" : "draft",
+        });
+      }
+      result.totalProcessed++;
+    });
+  }
+
+  /**
+   * Why publishing an entry with these fields would fail: empty required
+   * fields and broken field validations
+   */
+  private publishProblems(
+    fields: Record<string, any>,
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    requiredLocales: string[],
+    defaultLocale: string
+  ): string[] {
+    const problems: string[] = [];
+
+    for (const field of contentType.fields) {
+      const values: Record<string, any> = fields[field.id] || {};
+
+      if (field.required) {
+        for (const locale of field.localized ? requiredLocales : [defaultLocale]) {
+          const value = values[locale];
+          if (
+            value === null ||
+            value === undefined ||
+            value === "" ||
+            (Array.isArray(value) && value.length === 0)
+          ) {
+            problems.push(`Required field "${field.name}" has no ${locale} value`);
+          }
+        }
+      }
+
+      const linkedContentTypeId = config.fieldMappings.find((m) => m.targetField === field.id)
+        ?.reference?.contentTypeId;
+      for (const [locale, value] of Object.entries(values)) {
+        if (value === null || value === undefined || value === "") continue;
+        for (const violation of checkFieldValidations(value, field, { linkedContentTypeId })) {
+          problems.push(`${violation.message} (${locale})`);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Undo what an import did to these entries: created entries are unpublished
+   * and deleted, updated ones get their pre-import fields and published state
+   * back. Entries edited since the import are left alone and reported.
+   * `reverted` lists the entries with nothing left to undo.
+   */
+  async rollbackEntries(
+    targets: RollbackTarget[]
+  ): Promise<{ deleted: number; restored: number; issues: RollbackIssue[]; reverted: string[] }> {
+    const environment = await this.getEnvironment();
+    let deleted = 0;
+    let restored = 0;
+    const issues: RollbackIssue[] = [];
+    const reverted: string[] = [];
+
+    await runWithConcurrency(targets, IMPORT_CONCURRENCY, async (target) => {
+      const issue = (reason: RollbackIssue["reason"], message: string) =>
+        issues.push({ entryId: target.entryId, rows: target.rows, reason, message });
+
+      try {
+        let entry: Entry;
+        try {
+          entry = await this.call(() => environment.getEntry(target.entryId));
+        } catch (error) {
+          if (errorStatus(error) !== 404) throw error;
+          // A failed row's entry may never have been created
+          if (!target.unconfirmed) {
+            issue("missing", "The entry no longer exists");
+          }
+          reverted.push(target.entryId);
+          return;
+        }
+
+        if (target.version === undefined) {
+          issue(
+            "unverified",
+            "The import didn't finish writing this entry, so edits made since can't be ruled out; revert it by hand"
+          );
+          return;
+        }
+        if (entry.sys.version !== target.version) {
+          issue(
+            "edited",
+            `Edited since the import (version ${target.version}, now ${entry.sys.version}); revert it by hand`
+          );
+          return;
+        }
+
+        if (target.action === "created") {
+          if (entry.isPublished()) {
+            const published = entry;
+            entry = await this.call(() => published.unpublish());
+          }
+          const draft = entry;
+          await this.call(() => draft.delete());
+          deleted++;
+          reverted.push(target.entryId);
+          return;
+        }
+
+        if (!target.snapshot) {
+          issue("failed", "No pre-import version was recorded for this entry");
+          return;
+        }
+        entry.fields = target.snapshot.fields;
+        const restoredEntry = await this.call(() => entry.update());
+        if (target.snapshot.published) {
+          await this.call(() => restoredEntry.publish());
+        } else if (restoredEntry.isPublished()) {
+          await this.call(() => restoredEntry.unpublish());
+        }
+        restored++;
+        reverted.push(target.entryId);
+      } catch (error) {
+        issue("failed", error instanceof Error ? error.message : "Unknown error");
+      }
+    });
+
+    issues.sort((a, b) => a.rows[0] - b.rows[0]);
+    return { deleted, restored, issues, reverted };
+  }
+
+  /**
+   * Run an API call, retrying rate limits and transient errors with backoff.
+   * All calls share one rate-limit pause, since limits apply per space.
+   */
+  private call<T>(operation: (attempt: number) => Promise<T>, onRetry?: () => void): Promise<T> {
+    return withRetry(operation, this.rateLimit, undefined, onRetry);
+  }
+
+  private async getEnvironment(): Promise<Environment> {
+    const space = await this.call(() => this.client.getSpace(this.spaceId));
+    return this.call(() => space.getEnvironment(this.environmentId));
+  }
+
+  /**
+   * Create an entry under an ID chosen up front. A create retried after a
+   * server error, or resumed after an interruption, may already have gone
+   * through; the existing entry is then returned instead of failing or
+   * creating a duplicate.
+   */
+  private createEntry(
+    environment: Environment,
+    contentTypeId: string,
+    id: string,
+    fields: Record<string, any>,
+    onRetry?: () => void
+  ): Promise<Entry> {
+    return this.call(async () => {
+      try {
+        return await environment.createEntryWithId(contentTypeId, id, { fields });
+      } catch (error) {
+        if (errorStatus(error) === 409) {
+          return environment.getEntry(id);
+        }
+        throw error;
+      }
+    }, onRetry);
+  }
+
+  /**
+   * Look up existing entries whose match field equals a value in the file,
+   * keyed by that value
+   */
+  private async findExistingEntries(
+    environment: Environment,
+    rows: ContentRow[],
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    references: ReferenceIndex,
+    defaultLocale: string
+  ): Promise<Map<string, Entry>> {
+    const locale = this.getMatchLocale(config, contentType, defaultLocale);
+    const matchField = config.matchField!;
+    const entries = new Map<string, Entry>();
+
+    const keys = new Set<string>();
+    for (const row of rows) {
+      try {
+        const key = this.getMatchKey(
+          this.mapRowToFields(row, config, contentType, references, defaultLocale),
+          matchField,
+          locale
+        );
+        if (key !== null) {
+          keys.add(key);
+        }
+      } catch {
+        // Rows that cannot be mapped fail individually during import
+      }
+    }
+
+    const found = await this.findEntriesByField(
+      environment,
+      config.contentTypeId,
+      matchField,
+      Array.from(keys)
+    );
+    for (const entry of found) {
+      const key = this.getMatchKey(entry.fields, matchField, locale);
+      if (key !== null && !entries.has(key)) {
+        entries.set(key, entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Entries of a content type that already hold one of these values in a
+   * field, with the locale of each, so clashes with unique fields show up
+   * before anything is written
+   */
+  async findTakenValues(
+    contentTypeId: string,
+    fieldId: string,
+    values: string[],
+    matchField?: string
+  ): Promise<TakenValue[]> {
+    const environment = await this.getEnvironment();
+    return this.takenValues(environment, contentTypeId, fieldId, values, matchField);
+  }
+
+  private async takenValues(
+    environment: Environment,
+    contentTypeId: string,
+    fieldId: string,
+    values: string[],
+    matchField?: string
+  ): Promise<TakenValue[]> {
+    const wanted = new Set(values.map((v) => v.trim()));
+    const taken: TakenValue[] = [];
+    for (const entry of await this.findEntriesByField(environment, contentTypeId, fieldId, Array.from(wanted))) {
+      const matchValues: Record<string, any> = (matchField && entry.fields[matchField]) || {};
+      for (const [locale, value] of Object.entries(entry.fields[fieldId] || {})) {
+        if (value === null || value === undefined) continue;
+        const text = String(value).trim();
+        if (!wanted.has(text)) continue;
+
+        const matchValue = matchValues[locale] ?? Object.values(matchValues)[0];
+        taken.push({
+          fieldId,
+          entryId: entry.sys.id,
+          locale,
+          value: text,
+          matchValue: matchValue === null || matchValue === undefined ? undefined : String(matchValue).trim(),
+        });
+      }
+    }
+    return taken;
+  }
+
+  /**
+   * Entries already holding the values the rows give unique fields, by
+   * uniqueKey
+   */
+  private async findTakenUniqueValues(
+    environment: Environment,
+    rows: ContentRow[],
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    references: ReferenceIndex,
+    defaultLocale: string
+  ): Promise<Map<string, string>> {
+    const taken = new Map<string, string>();
+    const uniqueFields = contentType.fields.filter((f) => requiresUnique(f));
+    if (uniqueFields.length === 0) return taken;
+
+    const values = new Map<string, Set<string>>(uniqueFields.map((f) => [f.id, new Set<string>()]));
+    for (const row of rows) {
+      try {
+        const fields = this.mapRowToFields(row, config, contentType, references, defaultLocale);
+        for (const field of uniqueFields) {
+          for (const value of Object.values(fields[field.id] || {})) {
+            if (value === null || value === undefined || value === "") continue;
+            values.get(field.id)!.add(String(value).trim());
+          }
+        }
+      } catch {
+        // Rows that cannot be mapped fail on their own
+      }
+    }
+
+    for (const field of uniqueFields) {
+      const fieldValues = Array.from(values.get(field.id)!);
+      if (fieldValues.length === 0) continue;
+      const found = await this.takenValues(environment, config.contentTypeId, field.id, fieldValues);
+      for (const value of found) {
+        taken.set(uniqueKey(field.id, value.locale, value.value), value.entryId);
+      }
+    }
+    return taken;
+  }
+
+  /**
+   * Entries of a content type whose field equals one of the values. The [in]
+   * filter takes a comma-separated list with no way to escape a comma, so
+   * values containing one are looked up one at a time.
+   */
+  private async findEntriesByField(
+    environment: Environment,
+    contentTypeId: string,
+    fieldId: string,
+    values: string[]
+  ): Promise<Entry[]> {
+    const entries: Entry[] = [];
+
+    // Query in batches to keep the URL within API limits
+    const batchSize = 50;
+    const listed = values.filter((v) => !v.includes(","));
+    for (let i = 0; i < listed.length; i += batchSize) {
+      const batch = listed.slice(i, i + batchSize);
+      const response = await this.call(() =>
+        environment.getEntries({
+          content_type: contentTypeId,
+          [`fields.${fieldId}[in]`]: batch.join(","),
+          limit: 1000,
+        })
+      );
+      entries.push(...response.items);
+    }
+
+    for (const value of values.filter((v) => v.includes(","))) {
+      const response = await this.call(() =>
+        environment.getEntries({
+          content_type: contentTypeId,
+          [`fields.${fieldId}`]: value,
+          limit: 1000,
+        })
+      );
+      entries.push(...response.items);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Look up the entries referenced by cell values of reference mappings,
+   * reporting values that match no entry (or several) as row errors
+   */
+  private async resolveReferences(
+    environment: Environment,
+    rows: ContentRow[],
+    config: ImportConfig,
+    contentType: ContentfulContentType
+  ): Promise<{ index: ReferenceIndex; errors: ImportError[] }> {
+    const locale = config.locale || "en-US";
+    const separators = resolveCoercionRules(config.coercionRules).listSeparators;
+    const index: ReferenceIndex = new Map();
+    const errors: ImportError[] = [];
+
+    for (const mapping of config.fieldMappings) {
+      if (!mapping.reference) continue;
+
+      const { contentTypeId, lookupField } = mapping.reference;
+      if (!contentTypeId || !lookupField) {
+        throw new Error(
+          `Reference lookup for column "${mappingLabel(mapping)}" needs a content type and lookup field`
+        );
+      }
+
+      const field = contentType.fields.find((f) => f.id === mapping.targetField);
+      const values = new Set<string>();
+      for (const row of rows) {
+        this.splitReferenceValues(getSourceValue(row, mapping), field, separators).forEach((v) =>
+          values.add(v)
+        );
+      }
+
+      const found = new Map<string, string>();
+      const ambiguous = new Set<string>();
+      const entries = await this.findEntriesByField(
+        environment,
+        contentTypeId,
+        lookupField,
+        Array.from(values)
+      );
+
+      for (const entry of entries) {
+        const localized = entry.fields[lookupField] || {};
+        const value = localized[locale] ?? Object.values(localized)[0];
+        if (value === null || value === undefined) continue;
+
+        const key = String(value).trim();
+        if (found.has(key) && found.get(key) !== entry.sys.id) {
+          ambiguous.add(key);
+        }
+        found.set(key, entry.sys.id);
+      }
+
+      rows.forEach((row, i) => {
+        for (const value of this.splitReferenceValues(getSourceValue(row, mapping), field, separators)) {
+          if (!found.has(value)) {
+            errors.push({
+              row: i + 2,
+              message: `No ${contentTypeId} entry with ${lookupField} "${value}" for column "${mappingLabel(mapping)}"`,
+            });
+          } else if (ambiguous.has(value)) {
+            errors.push({
+              row: i + 2,
+              message: `Multiple ${contentTypeId} entries have ${lookupField} "${value}" for column "${mappingLabel(mapping)}"`,
+            });
+          }
+        }
+      });
+
+      index.set(mappingKey(mapping), found);
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+    return { index, errors };
+  }
+
+  /**
+   * Find the files named by media mappings in the upload's bundle and make
+   * sure each has an asset, uploading files no earlier import created.
+   * Missing files are reported as row errors before anything is uploaded.
+   */
+  private async resolveAssets(
+    environment: Environment,
+    rows: ContentRow[],
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    mediaBundleId: string | undefined,
+    defaultLocale: string,
+    dryRun: boolean
+  ): Promise<{ index: ReferenceIndex; errors: ImportError[] }> {
+    const index: ReferenceIndex = new Map();
+    const errors: ImportError[] = [];
+    const mediaMappings = config.fieldMappings.filter((m) => m.media);
+    if (mediaMappings.length === 0) {
+      return { index, errors };
+    }
+    if (!mediaBundleId) {
+      throw new Error(
+        `Column "${mappingLabel(mediaMappings[0])}" names media files, but the upload was not a ZIP with media`
+      );
+    }
+
+    const separators = resolveCoercionRules(config.coercionRules).listSeparators;
+    const bundle = loadMediaBundle(mediaBundleId);
+    const files = new Map<string, MediaFile>(); // by checksum
+    const found = new Map<string, Map<string, string>>(); // per mapping: value -> checksum
+
+    for (const mapping of mediaMappings) {
+      const field = contentType.fields.find((f) => f.id === mapping.targetField);
+      const values = new Map<string, string>();
+
+      rows.forEach((row, i) => {
+        for (const value of splitMediaValues(getSourceValue(row, mapping), field, separators)) {
+          const file = findMediaFile(bundle.files, value);
+          if (file) {
+            values.set(value, file.checksum);
+            files.set(file.checksum, file);
+          } else {
+            errors.push({
+              row: i + 2,
+              message: `No file "${value}" in the uploaded ZIP for column "${mappingLabel(mapping)}"`,
+            });
+          }
+        }
+      });
+      found.set(mappingKey(mapping), values);
+    }
+
+    if (errors.length > 0) {
+      errors.sort((a, b) => a.row - b.row);
+      return { index, errors };
+    }
+
+    // Asset IDs follow from the file content, so a dry run knows them without uploading
+    const assetIds = dryRun
+      ? new Map(Array.from(files.keys()).map((checksum) => [checksum, mediaAssetId(checksum)]))
+      : await this.ensureAssets(
+          environment,
+          bundle,
+          Array.from(files.values()),
+          defaultLocale,
+          config.publishImmediately
+        );
+    found.forEach((values, key) => {
+      const ids = new Map<string, string>();
+      values.forEach((checksum, value) => ids.set(value, assetIds.get(checksum)!));
+      index.set(key, ids);
+    });
+
+    return { index, errors };
+  }
+
+  /**
+   * Asset ids by file checksum. Asset IDs are derived from the checksum, so
+   * a file some earlier import uploaded is linked instead of uploaded again.
+   */
+  private async ensureAssets(
+    environment: Environment,
+    bundle: MediaBundle,
+    files: MediaFile[],
+    locale: string,
+    publish: boolean
+  ): Promise<Map<string, string>> {
+    const existing = new Map<string, Asset>();
+    const batchSize = 50;
+    for (let i = 0; i < files.length; i += batchSize) {
+      const ids = files.slice(i, i + batchSize).map((f) => mediaAssetId(f.checksum));
+      const response = await this.call(() =>
+        environment.getAssets({ "sys.id[in]": ids.join(","), limit: 1000 })
+      );
+      response.items.forEach((asset) => existing.set(asset.sys.id, asset));
+    }
+
+    const assetIds = new Map<string, string>();
+    for (const file of files) {
+      const id = mediaAssetId(file.checksum);
+      let asset = existing.get(id);
+
+      if (!asset) {
+        const upload = await this.call(() =>
+          environment.createUpload({ file: readMediaFile(bundle.bundleId, file) })
+        );
+        const created = await this.call(() =>
+          environment.createAssetWithId(id, {
+            fields: {
+              title: { [locale]: file.fileName.replace(/\.[^.]+$/, "") },
+              file: {
+                [locale]: {
+                  fileName: file.fileName,
+                  contentType: file.contentType,
+                  uploadFrom: { sys: { type: "Link", linkType: "Upload", id: upload.sys.id } },
+                },
+              },
+            },
+          })
+        );
+        asset = await this.call(() => created.processForAllLocales());
+      }
+
+      // Published entries can only link to published assets
+      if (publish && !asset.isPublished()) {
+        const draft = asset;
+        asset = await this.call(() => draft.publish());
+      }
+      assetIds.set(file.checksum, asset.sys.id);
+    }
+
+    return assetIds;
+  }
+
+  /**
+   * Split a reference cell into individual lookup values (a list for Array fields)
+   */
+  private splitReferenceValues(
+    value: ContentRow[string],
+    field: ContentfulField | undefined,
+    separators: string[]
+  ): string[] {
+    if (value === null || value === undefined) return [];
+    const text = String(value);
+    return (field?.type === "Array" ? splitList(text, separators) : [text.trim()]).filter(
+      (v) => v !== ""
+    );
+  }
+
+  /**
+   * Build a Link object pointing at an entry or asset
+   */
+  private toLink(linkType: "Entry" | "Asset", id: string) {
+    return { sys: { type: "Link", linkType, id } };
+  }
+
+  /**
+   * Locale the match field is compared in; non-localized fields only have the default locale
+   */
+  private getMatchLocale(
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    defaultLocale: string
+  ): string {
+    const field = contentType.fields.find((f) => f.id === config.matchField);
+    return field && !field.localized ? defaultLocale : config.locale || "en-US";
+  }
+
+  /**
+   * Get the normalized match key from a localized fields object
+   */
+  private getMatchKey(
+    fields: Record<string, any>,
+    matchField: string,
+    locale: string
+  ): string | null {
+    const value = fields[matchField]?.[locale];
+    if (value === null || value === undefined || String(value).trim() === "") {
+      return null;
+    }
+    return String(value).trim();
+  }
+
+  /**
+   * Map a spreadsheet row to Contentful fields. Mappings with a locale write
+   * that locale; non-localized fields are written in the default locale only.
    */
   private mapRowToFields(
     row: ContentRow,
-    config: ImportConfig
+    config: ImportConfig,
+    contentType: ContentfulContentType,
+    references: ReferenceIndex,
+    defaultLocale: string
   ): Record<string, any> {
     const fields: Record<string, any> = {};
     const locale = config.locale || "en-US";
+    const rules = resolveCoercionRules(config.coercionRules);
+    const localeFor = (field: ContentfulField | undefined, mappingLocale?: string) =>
+      field && !field.localized ? defaultLocale : mappingLocale || locale;
 
     for (const mapping of config.fieldMappings) {
-      const sourceValue = row[mapping.sourceField];
-      
+      const sourceValue = getSourceValue(row, mapping);
+      const field = contentType.fields.find((f) => f.id === mapping.targetField);
+
+      // Columns for other locales can't fill a non-localized field
+      if (field && !field.localized && mapping.locale && mapping.locale !== defaultLocale) {
+        continue;
+      }
+
       if (sourceValue !== null && sourceValue !== undefined) {
         fields[mapping.targetField] = {
-          [locale]: this.transformValue(sourceValue, mapping),
+          ...fields[mapping.targetField],
+          [localeFor(field, mapping.locale)]:
+            mapping.reference || mapping.media
+              ? this.toReferenceValue(sourceValue, mapping, field, references, rules.listSeparators)
+              : this.transformValue(sourceValue, mapping, field, rules),
         };
       }
     }
 
     // Apply default values
     if (config.defaultValues) {
-      for (const [field, value] of Object.entries(config.defaultValues)) {
-        if (!fields[field]) {
-          fields[field] = { [locale]: value };
+      for (const [fieldId, value] of Object.entries(config.defaultValues)) {
+        if (!fields[fieldId]) {
+          const field = contentType.fields.find((f) => f.id === fieldId);
+          fields[fieldId] = { [localeFor(field)]: value };
         }
       }
     }
 
+    // Translations only fill localized fields, in locales no column wrote
+    if (config.translations?.length) {
+      applyTranslations(
+        fields,
+        config.translations.filter(
+          (t) => contentType.fields.find((f) => f.id === t.field)?.localized
+        )
+      );
+    }
+
     return fields;
   }
 
   /**
-   * Transform value based on mapping configuration
+   * Convert a reference or media cell into a Link, or an array of Links for Array fields
    */
-  private transformValue(value: any, mapping: FieldMapping): any {
-    // Basic transformations
-    if (typeof value === "string") {
-      return value.trim();
+  private toReferenceValue(
+    value: ContentRow[string],
+    mapping: FieldMapping,
+    field: ContentfulField | undefined,
+    references: ReferenceIndex,
+    separators: string[]
+  ): any {
+    const resolved = references.get(mappingKey(mapping)) || new Map<string, string>();
+    const links = this.splitReferenceValues(value, field, separators)
+      .filter((v) => resolved.has(v))
+      .map((v) => this.toLink(mapping.media ? "Asset" : "Entry", resolved.get(v)!));
+
+    return field?.type === "Array" ? links : links[0];
+  }
+
+  /**
+   * Transform value based on mapping configuration: run the mapping's
+   * transform steps, then coerce to the field type
+   */
+  private transformValue(
+    value: any,
+    mapping: FieldMapping,
+    field: ContentfulField | undefined,
+    rules: CoercionRules
+  ): any {
+    const transformed = applyTransforms(value, mapping.transforms);
+    if (!transformed.ok) {
+      throw new Error(`Column "${mappingLabel(mapping)}": ${transformed.message}`);
+    }
+
+    if (!field) {
+      return typeof transformed.value === "string" ? transformed.value.trim() : transformed.value;
+    }
+
+    const coerced = coerceValue(transformed.value, field, rules);
+    if (!coerced.ok) {
+      throw new Error(`Column "${mappingLabel(mapping)}": ${coerced.message}`);
     }
-    return value;
+    return coerced.value;
   }
 
   /**
@@ -204,7 +1260,7 @@ export class ContentfulService {
    */
   async validateConnection(): Promise<boolean> {
     try {
-      await this.client.getSpace(this.spaceId);
+      await this.call(() => this.client.getSpace(this.spaceId));
       return true;
     } catch {
       return false;
@@ -214,19 +1270,20 @@ export class ContentfulService {
   /**
    * Get available locales
    */
-  async getLocales(): Promise<{ code: string; name: string; default: boolean }[]> {
+  async getLocales(): Promise<ContentfulLocale[]> {
     try {
-      const space = await this.client.getSpace(this.spaceId);
-      const environment = await space.getEnvironment(this.environmentId);
-      const locales = await environment.getLocales();
+      const environment = await this.getEnvironment();
+      const locales = await this.call(() => environment.getLocales());
 
       return locales.items.map((locale) => ({
         code: locale.code,
         name: locale.name,
         default: locale.default,
+        fallbackCode: locale.fallbackCode,
+        optional: locale.optional,
       }));
     } catch {
-      return [{ code: "en-US", name: "English (US)", default: true }];
+      return [{ code: "en-US", name: "English (US)", default: true, fallbackCode: null, optional: false }];
     }
   }
 }
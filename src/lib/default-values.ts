@@ -0,0 +1,100 @@
+/**
+ * Default Values
+ * Constant values for content type fields that no column is mapped to,
+ * e.g. the same author for a whole batch. They are entered as text in the
+ * mapping step and converted to the field's type before the import.
+ */
+
+import type { CoercionRules, ContentfulField } from "@/types";
+import { coerceValue, DEFAULT_COERCION_RULES, splitList } from "./value-coercion";
+import { checkFieldValidations } from "./field-validations";
+
+export interface ResolvedDefaultValues {
+  values: Record<string, any>;
+  // Field id -> problem with the entered value
+  errors: Record<string, string>;
+}
+
+/**
+ * Whether a constant value can be entered for this field type
+ */
+export function supportsDefaultValue(field: ContentfulField): boolean {
+  return field.type !== "RichText";
+}
+
+/**
+ * Allowed values from an "in" validation, for fields edited as a dropdown
+ */
+export function allowedValues(field: ContentfulField): string[] {
+  const validations =
+    field.type === "Array" ? field.items?.validations : field.validations;
+  const rule = (validations || []).find((v) => Array.isArray(v?.in));
+  return rule ? rule.in.map(String) : [];
+}
+
+/**
+ * Convert entered defaults to field values. Blank inputs are left out.
+ */
+export function resolveDefaultValues(
+  inputs: Record<string, string>,
+  fields: ContentfulField[],
+  rules: CoercionRules = DEFAULT_COERCION_RULES
+): ResolvedDefaultValues {
+  const values: Record<string, any> = {};
+  const errors: Record<string, string> = {};
+
+  for (const [fieldId, input] of Object.entries(inputs)) {
+    const field = fields.find((f) => f.id === fieldId);
+    if (!field || !supportsDefaultValue(field) || input.trim() === "") continue;
+
+    const converted = toFieldValue(input.trim(), field, rules);
+    if (!converted.ok) {
+      errors[fieldId] = converted.message;
+      continue;
+    }
+
+    const violation = isLink(field) ? undefined : checkFieldValidations(converted.value, field)[0];
+    if (violation) {
+      errors[fieldId] = violation.message;
+    } else {
+      values[fieldId] = converted.value;
+    }
+  }
+
+  return { values, errors };
+}
+
+function toFieldValue(
+  input: string,
+  field: ContentfulField,
+  rules: CoercionRules
+): { ok: true; value: any } | { ok: false; message: string } {
+  // Links are entered as entry or asset IDs
+  if (field.type === "Link") {
+    return { ok: true, value: toLink(input, field.linkType) };
+  }
+  if (field.type === "Array" && field.items?.type === "Link") {
+    return {
+      ok: true,
+      value: splitList(input, rules.listSeparators).map((id) => toLink(id, field.items?.linkType)),
+    };
+  }
+
+  // The editor's own inputs produce these regardless of the file's rules
+  if (field.type === "Boolean" && (input === "true" || input === "false")) {
+    return { ok: true, value: input === "true" };
+  }
+  if (field.type === "Date" && /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/.test(input)) {
+    return { ok: true, value: input };
+  }
+
+  return coerceValue(input, field, rules);
+}
+
+function toLink(id: string, linkType = "Entry") {
+  return { sys: { type: "Link", linkType, id } };
+}
+
+function isLink(field: ContentfulField): boolean {
+  return field.type === "Link" || (field.type === "Array" && field.items?.type === "Link");
+}
@@ -0,0 +1,55 @@
+/**
+ * Field Matching
+ * Deterministic header-to-field matching by normalized name, used when no AI
+ * mapping is available and by the offline mock provider.
+ */
+
+import type { FieldMapping } from "@/types";
+
+/**
+ * Match spreadsheet headers to fields by exact or partial normalized name
+ */
+export function matchFieldsByName(
+  sourceHeaders: string[],
+  targetFields: { id: string; name: string }[]
+): FieldMapping[] {
+  const mappings: FieldMapping[] = [];
+
+  for (const header of sourceHeaders) {
+    const normalizedHeader = header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+    for (const field of targetFields) {
+      const normalizedId = field.id.toLowerCase().replace(/[^a-z0-9]/g, "");
+      const normalizedName = field.name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+      if (
+        normalizedHeader === normalizedId ||
+        normalizedHeader === normalizedName
+      ) {
+        mappings.push({
+          sourceField: header,
+          targetField: field.id,
+          confidence: 0.8,
+        });
+        break;
+      }
+
+      // Partial match
+      if (
+        normalizedHeader.includes(normalizedId) ||
+        normalizedId.includes(normalizedHeader) ||
+        normalizedHeader.includes(normalizedName) ||
+        normalizedName.includes(normalizedHeader)
+      ) {
+        mappings.push({
+          sourceField: header,
+          targetField: field.id,
+          confidence: 0.5,
+        });
+        break;
+      }
+    }
+  }
+
+  return mappings;
+}
@@ -0,0 +1,201 @@
+/**
+ * Field Validations
+ * Evaluates Contentful field validation rules locally against coerced values,
+ * so problems surface before the import instead of as API errors mid-import.
+ */
+
+import type { ContentfulField } from "@/types";
+import { isRichTextDocument, richTextMarks, richTextNodeTypes } from "./rich-text";
+
+export interface RuleViolation {
+  rule: string;
+  message: string;
+}
+
+export interface ValidationContext {
+  // Content type of the entries a reference value points at, when known
+  linkedContentTypeId?: string;
+}
+
+interface NumRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Check a coerced value against the field's validations (and its items' validations for Arrays)
+ */
+export function checkFieldValidations(
+  value: any,
+  field: Pick<ContentfulField, "name" | "type" | "validations" | "items">,
+  context: ValidationContext = {}
+): RuleViolation[] {
+  const violations = checkRules(value, field.name, field.validations || [], context);
+
+  if (field.type === "Array" && Array.isArray(value) && field.items?.validations?.length) {
+    for (const item of value) {
+      violations.push(
+        ...checkRules(item, `${field.name} item`, field.items.validations, context)
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Whether values of this field must be unique across entries
+ */
+export function requiresUnique(field: Pick<ContentfulField, "validations">): boolean {
+  return (field.validations || []).some((v) => v?.unique === true);
+}
+
+function checkRules(
+  value: any,
+  name: string,
+  validations: any[],
+  context: ValidationContext
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  for (const validation of validations) {
+    const violation = checkRule(value, name, validation, context);
+    if (violation) {
+      violations.push(
+        validation.message
+          ? { ...violation, message: `${violation.message}. ${validation.message}` }
+          : violation
+      );
+    }
+  }
+
+  return violations;
+}
+
+function checkRule(
+  value: any,
+  name: string,
+  validation: Record<string, any>,
+  context: ValidationContext
+): RuleViolation | null {
+  if (validation.size && (typeof value === "string" || Array.isArray(value))) {
+    const unit = typeof value === "string" ? "characters" : "items";
+    if (!inRange(value.length, validation.size)) {
+      return {
+        rule: "size",
+        message: `"${name}" must have ${describeRange(validation.size)} ${unit} (size), got ${value.length}`,
+      };
+    }
+  }
+
+  if (validation.range && typeof value === "number") {
+    if (!inRange(value, validation.range)) {
+      return {
+        rule: "range",
+        message: `"${name}" must be ${describeRange(validation.range)} (range)`,
+      };
+    }
+  }
+
+  if (validation.regexp && typeof value === "string") {
+    const { pattern, flags } = validation.regexp;
+    if (!safeRegExp(pattern, flags)?.test(value)) {
+      return {
+        rule: "regexp",
+        message: `"${name}" must match the pattern /${pattern}/${flags || ""} (regexp)`,
+      };
+    }
+  }
+
+  if (validation.prohibitRegexp && typeof value === "string") {
+    const { pattern, flags } = validation.prohibitRegexp;
+    if (safeRegExp(pattern, flags)?.test(value)) {
+      return {
+        rule: "prohibitRegexp",
+        message: `"${name}" must not match the pattern /${pattern}/${flags || ""} (prohibitRegexp)`,
+      };
+    }
+  }
+
+  if (Array.isArray(validation.in) && (typeof value === "string" || typeof value === "number")) {
+    if (!validation.in.includes(value)) {
+      return {
+        rule: "in",
+        message: `"${name}" must be one of: ${validation.in.join(", ")} (in)`,
+      };
+    }
+  }
+
+  if (validation.dateRange && typeof value === "string") {
+    const time = Date.parse(value);
+    const min = validation.dateRange.min ? Date.parse(validation.dateRange.min) : -Infinity;
+    const max = validation.dateRange.max ? Date.parse(validation.dateRange.max) : Infinity;
+    if (!isNaN(time) && (time < min || time > max)) {
+      const bounds = [
+        validation.dateRange.min && `on or after ${validation.dateRange.min}`,
+        validation.dateRange.max && `on or before ${validation.dateRange.max}`,
+      ].filter(Boolean);
+      return {
+        rule: "dateRange",
+        message: `"${name}" must be ${bounds.join(" and ")} (dateRange)`,
+      };
+    }
+  }
+
+  if (Array.isArray(validation.linkContentType) && context.linkedContentTypeId) {
+    if (!validation.linkContentType.includes(context.linkedContentTypeId)) {
+      return {
+        rule: "linkContentType",
+        message: `"${name}" can only link to: ${validation.linkContentType.join(", ")} (linkContentType), not ${context.linkedContentTypeId}`,
+      };
+    }
+  }
+
+  if (Array.isArray(validation.enabledNodeTypes) && isRichTextDocument(value)) {
+    const disallowed = richTextNodeTypes(value).filter(
+      (type) => !validation.enabledNodeTypes.includes(type)
+    );
+    if (disallowed.length > 0) {
+      return {
+        rule: "enabledNodeTypes",
+        message: `"${name}" doesn't allow ${disallowed.join(", ")} (enabledNodeTypes)`,
+      };
+    }
+  }
+
+  if (Array.isArray(validation.enabledMarks) && isRichTextDocument(value)) {
+    const disallowed = richTextMarks(value).filter(
+      (mark) => !validation.enabledMarks.includes(mark)
+    );
+    if (disallowed.length > 0) {
+      return {
+        rule: "enabledMarks",
+        message: `"${name}" doesn't allow ${disallowed.join(", ")} formatting (enabledMarks)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+function inRange(value: number, range: NumRange): boolean {
+  if (typeof range.min === "number" && value < range.min) return false;
+  if (typeof range.max === "number" && value > range.max) return false;
+  return true;
+}
+
+function describeRange(range: NumRange): string {
+  const hasMin = typeof range.min === "number";
+  const hasMax = typeof range.max === "number";
+  if (hasMin && hasMax) return `between ${range.min} and ${range.max}`;
+  if (hasMin) return `at least ${range.min}`;
+  return `at most ${range.max}`;
+}
+
+function safeRegExp(pattern: string, flags?: string): RegExp | null {
+  try {
+    return new RegExp(pattern, flags || undefined);
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 import * as XLSX from "xlsx";
 import Papa from "papaparse";
+import { openMediaBundle } from "./media-bundle";
 import type { ParsedFileResult, ContentRow } from "@/types";
 
 export class FileParserService {
@@ -16,11 +17,25 @@ export class FileParserService {
       return this.parseCSV(arrayBuffer, file.name);
     } else if (fileName.endsWith(".xlsx") || fileName.endsWith(".xls")) {
       return this.parseExcel(arrayBuffer, file.name);
+    } else if (fileName.endsWith(".zip")) {
+      return this.parseZip(arrayBuffer, file.name);
     } else {
-      throw new Error("Unsupported file format. Please upload a CSV or Excel file.");
+      throw new Error("Unsupported file format. Please upload a CSV, Excel or ZIP file.");
     }
   }
 
+  /**
+   * Parse the spreadsheet inside a ZIP upload and keep its media files for import
+   */
+  private static async parseZip(arrayBuffer: ArrayBuffer, fileName: string): Promise<ParsedFileResult> {
+    const { spreadsheet, bundle } = openMediaBundle(arrayBuffer, fileName);
+    const result = spreadsheet.fileName.toLowerCase().endsWith(".csv")
+      ? await this.parseCSV(spreadsheet.data, spreadsheet.fileName)
+      : await this.parseExcel(spreadsheet.data, spreadsheet.fileName);
+
+    return { ...result, fileName: `${fileName} › ${spreadsheet.fileName}`, media: bundle };
+  }
+
   /**
    * Parse CSV file from array buffer
    */
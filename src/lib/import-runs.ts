@@ -0,0 +1,304 @@
+/**
+ * Import Runs
+ * Every import gets a run id and a checkpoint in DATA_DIR/imports: the rows
+ * and settings it was started with, and an append-only log of what happened
+ * to each row. A run interrupted by a timed-out server action, a closed tab
+ * or a crash can be resumed, skipping rows that were already written, and
+ * a finished one can be rolled back.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type {
+  ContentRow,
+  ImportConfig,
+  ImportRunStatus,
+  ImportRunSummary,
+  RollbackTarget,
+  RowCheckpoint,
+} from "@/types";
+import { getDataDir, JsonFileStore } from "./local-store";
+import { hasMediaBundle } from "./media-bundle";
+
+export interface ImportRun {
+  id: string;
+  fileName: string;
+  config: ImportConfig;
+  rows: ContentRow[];
+  mediaBundleId?: string;
+  createdAt: string;
+  // Set by the first rollback call; a run that was even partly rolled back can't be resumed
+  rollbackStartedAt?: string;
+  // "interrupted" is never stored; it is a running run whose log went quiet
+  status: Exclude<ImportRunStatus, "interrupted">;
+}
+
+// A running run whose log hasn't changed for this long is treated as interrupted
+const STALE_AFTER_MS = 2 * 60 * 1000;
+// How often a running import touches its log, so phases that record no
+// checkpoints (reference lookups, uploads, rate-limit pauses) don't look stale
+const HEARTBEAT_MS = 30 * 1000;
+// Runs are kept this long, for resuming and rolling back
+const RUN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+class ImportRunStore {
+  private dir = path.join(getDataDir(), "imports");
+
+  create(input: Pick<ImportRun, "fileName" | "config" | "rows" | "mediaBundleId">): ImportRun {
+    this.removeExpired();
+
+    const run: ImportRun = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      status: "running",
+    };
+    this.runFile(run.id).write(run);
+    fs.writeFileSync(this.logPath(run.id), "");
+    return run;
+  }
+
+  get(id: string): ImportRun | null {
+    return this.runFile(id).read();
+  }
+
+  setStatus(id: string, status: ImportRun["status"]): void {
+    const run = this.get(id);
+    if (run) {
+      this.runFile(id).write({ ...run, status });
+    }
+    if (run && status === "running") {
+      // A resumed run counts as active from now, not from its last checkpoint
+      this.touch(id);
+    }
+  }
+
+  /**
+   * Keep a run active while this process works on it; call the returned
+   * function when done. A crashed process stops the heartbeat, and the run
+   * goes stale.
+   */
+  keepAlive(id: string): () => void {
+    const timer = setInterval(() => {
+      try {
+        this.touch(id);
+      } catch {
+        // Removed as expired; the import itself reports any problem
+      }
+    }, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Append a row checkpoint. Appending keeps each write small however many
+   * rows the run has, and a crash can at worst cut off the last line.
+   */
+  record(id: string, checkpoint: RowCheckpoint): void {
+    fs.appendFileSync(this.logPath(id), JSON.stringify(checkpoint) + "\n");
+  }
+
+  /**
+   * Latest checkpoint of every row the run has touched, by row number
+   */
+  checkpoints(id: string): Map<number, RowCheckpoint> {
+    const latest = new Map<number, RowCheckpoint>();
+    let log = "";
+    try {
+      log = fs.readFileSync(this.logPath(id), "utf-8");
+    } catch {
+      return latest;
+    }
+
+    for (const line of log.split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        const checkpoint: RowCheckpoint = JSON.parse(line);
+        latest.set(checkpoint.row, checkpoint);
+      } catch {
+        // A line cut off by a crash
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Entries the run wrote, in row order. An entry several rows wrote (an
+   * upsert hitting the same match value twice) is one target: the first row
+   * says whether the import created it and what it looked like before, the
+   * last one which version the import left it at.
+   */
+  rollbackTargets(id: string): RollbackTarget[] {
+    const byEntry = new Map<string, RowCheckpoint[]>();
+    Array.from(this.checkpoints(id).values())
+      .sort((a, b) => a.row - b.row)
+      .forEach((checkpoint) => {
+        if (!checkpoint.entryId || !checkpoint.action) return;
+        byEntry.set(checkpoint.entryId, [...(byEntry.get(checkpoint.entryId) || []), checkpoint]);
+      });
+
+    return Array.from(byEntry.entries()).map(([entryId, checkpoints]): RollbackTarget => {
+      const first = checkpoints[0];
+      if (checkpoints.every((c) => c.status === "rolled-back")) {
+        return { entryId, action: first.action!, rows: checkpoints.map((c) => c.row), rolledBack: true };
+      }
+
+      const last = checkpoints[checkpoints.length - 1];
+      const written = checkpoints.some((c) => c.status === "written");
+
+      let version: number | undefined;
+      if (last.status === "written") {
+        version = last.version;
+      } else if (!written && first.action === "created") {
+        // Created but never published or updated, if it was created at all
+        version = 1;
+      }
+
+      return {
+        entryId,
+        action: first.action!,
+        rows: checkpoints.map((c) => c.row),
+        version,
+        snapshot: first.snapshot,
+        unconfirmed: !written || undefined,
+      };
+    });
+  }
+
+  /**
+   * Record that a rollback undid these entries, so retrying the rollback
+   * skips them
+   */
+  recordRollback(id: string, targets: RollbackTarget[]): void {
+    const run = this.get(id);
+    if (run && !run.rollbackStartedAt) {
+      this.runFile(id).write({ ...run, rollbackStartedAt: new Date().toISOString() });
+    }
+    for (const target of targets) {
+      for (const row of target.rows) {
+        this.record(id, { row, status: "rolled-back", entryId: target.entryId, action: target.action });
+      }
+    }
+  }
+
+  /**
+   * Whether a run is still being worked on by some request
+   */
+  isActive(id: string): boolean {
+    return this.get(id)?.status === "running" && Date.now() - this.lastActivity(id) < STALE_AFTER_MS;
+  }
+
+  /**
+   * Recently active runs, newest first
+   */
+  list(limit = 20): ImportRunSummary[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs
+      .readdirSync(this.dir)
+      .filter((name) => name.endsWith(".log"))
+      .map((name) => name.replace(/\.log$/, ""))
+      .sort((a, b) => this.lastActivity(b) - this.lastActivity(a))
+      .slice(0, limit)
+      .map((id) => this.get(id))
+      .filter((run): run is ImportRun => run !== null)
+      .map((run) => this.summarize(run));
+  }
+
+  summarize(run: ImportRun): ImportRunSummary {
+    const checkpoints = Array.from(this.checkpoints(run.id).values());
+    const status: ImportRunStatus = run.rollbackStartedAt
+      ? "rolled-back"
+      : run.status === "running" && !this.isActive(run.id)
+      ? "interrupted"
+      : run.status;
+
+    return {
+      id: run.id,
+      fileName: run.fileName,
+      contentTypeId: run.config.contentTypeId,
+      createdAt: run.createdAt,
+      updatedAt: new Date(this.lastActivity(run.id)).toISOString(),
+      totalRows: run.rows.length,
+      written: checkpoints.filter((c) => c.status === "written").length,
+      failed: checkpoints.filter((c) => c.status === "failed").length,
+      status,
+      resumable: this.canResume(run),
+      rollbackTargets: this.rollbackTargets(run.id).filter((t) => !t.rolledBack).length,
+    };
+  }
+
+  /**
+   * Whether the run's media files are still there. Media bundles expire long
+   * before runs do, and without them every media row would fail.
+   */
+  hasMedia(run: ImportRun): boolean {
+    return !run.mediaBundleId || hasMediaBundle(run.mediaBundleId);
+  }
+
+  private canResume(run: ImportRun): boolean {
+    return (
+      (run.status === "running" || run.status === "failed") &&
+      !run.rollbackStartedAt &&
+      !this.isActive(run.id) &&
+      this.hasMedia(run)
+    );
+  }
+
+  private touch(id: string): void {
+    const now = new Date();
+    fs.utimesSync(this.logPath(id), now, now);
+  }
+
+  private lastActivity(id: string): number {
+    try {
+      return fs.statSync(this.logPath(id)).mtimeMs;
+    } catch {
+      return 0;
+    }
+  }
+
+  private removeExpired(): void {
+    if (!fs.existsSync(this.dir)) return;
+
+    for (const name of fs.readdirSync(this.dir)) {
+      const filePath = path.join(this.dir, name);
+      try {
+        if (Date.now() - fs.statSync(filePath).mtimeMs > RUN_TTL_MS) {
+          fs.rmSync(filePath, { force: true });
+        }
+      } catch {
+        // Removed by another request
+      }
+    }
+  }
+
+  private runFile(id: string): JsonFileStore<ImportRun | null> {
+    return new JsonFileStore<ImportRun | null>(
+      path.join("imports", `${this.checkedId(id)}.json`),
+      () => null
+    );
+  }
+
+  private logPath(id: string): string {
+    return path.join(this.dir, `${this.checkedId(id)}.log`);
+  }
+
+  // Run IDs come back from the client, so never let one escape the imports directory
+  private checkedId(id: string): string {
+    if (!/^[a-f0-9-]{36}$/.test(id)) {
+      throw new Error("Invalid import run ID");
+    }
+    return id;
+  }
+}
+
+// Singleton instance for server-side use
+let store: ImportRunStore | null = null;
+
+export function getImportRunStore(): ImportRunStore {
+  if (!store) {
+    store = new ImportRunStore();
+  }
+  return store;
+}
@@ -0,0 +1,215 @@
+/**
+ * LLM Providers
+ * A small provider interface so AI features can run against OpenAI, an
+ * OpenAI-compatible local endpoint, or a deterministic offline mock.
+ */
+
+import OpenAI from "openai";
+import { matchFieldsByName } from "./field-matching";
+import type { ResponseSchema } from "./ai-schemas";
+
+export type LLMProviderName = "openai" | "local" | "mock";
+
+// AI tasks, used for budgeting and usage reporting
+export type AITask = "suggestFieldMappings" | "suggestContentImprovements" | "translateValues";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: AITask;
+  messages: LLMMessage[];
+  model?: string; // overrides the provider default
+  temperature?: number;
+  maxTokens?: number;
+  // Request structured output matching this JSON schema
+  responseFormat?: ResponseSchema;
+  // Structured inputs the prompt was built from; lets the mock answer deterministically
+  input?: unknown;
+}
+
+export interface LLMCompletionResponse {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  // Cheaper model to fall back to when the budget can't cover the default
+  readonly economyModel?: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
+
+interface OpenAIProviderOptions {
+  name: "openai" | "local";
+  apiKey: string;
+  model: string;
+  economyModel?: string;
+  baseURL?: string;
+}
+
+/**
+ * OpenAI chat completions, or any endpoint that speaks the same API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: "openai" | "local";
+  readonly defaultModel: string;
+  readonly economyModel?: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.defaultModel = options.model;
+    this.economyModel =
+      options.economyModel && options.economyModel !== options.model
+        ? options.economyModel
+        : undefined;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: this.toResponseFormat(request.responseFormat),
+    });
+
+    return {
+      content: response.choices[0]?.message?.content?.trim() || "",
+      model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * OpenAI enforces the JSON schema; compatible local servers commonly only
+   * support plain JSON mode, so the schema is checked after the fact there
+   */
+  private toResponseFormat(format?: ResponseSchema) {
+    if (!format) return undefined;
+    if (this.name === "local") return { type: "json_object" as const };
+    return {
+      type: "json_schema" as const,
+      json_schema: { name: format.name, schema: format.schema, strict: true },
+    };
+  }
+}
+
+/**
+ * Deterministic offline provider for air-gapped environments and demos.
+ * Mappings come from name matching; content suggestions are fixed heuristics.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock" as const;
+  readonly defaultModel = "mock";
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const content = JSON.stringify(this.respond(request));
+    const promptText = request.messages.map((m) => m.content).join("\n");
+
+    return {
+      content,
+      model: request.model || this.defaultModel,
+      usage: {
+        promptTokens: Math.ceil(promptText.length / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  private respond(request: LLMCompletionRequest): unknown {
+    switch (request.task) {
+      case "suggestFieldMappings": {
+        const input = request.input as {
+          sourceHeaders?: string[];
+          targetFields?: { id: string; name: string }[];
+        };
+        return {
+          mappings: matchFieldsByName(input?.sourceHeaders || [], input?.targetFields || []),
+        };
+      }
+      case "suggestContentImprovements": {
+        const text = typeof request.input === "string" ? request.input : "";
+        const suggestions: string[] = [];
+        if (text.length > 0 && text.length < 50) {
+          suggestions.push("Consider expanding this content with more detail.");
+        }
+        if (text.length > 2000) {
+          suggestions.push("Consider splitting this content into shorter sections.");
+        }
+        return suggestions;
+      }
+      case "translateValues": {
+        // Marks the text with the target locale so the flow can be exercised offline
+        const input = request.input as { texts?: string[]; targetLocale?: string };
+        return {
+          translations: (input?.texts || []).map((text, index) => ({
+            index,
+            text: `[${input.targetLocale}] ${text}`,
+          })),
+        };
+      }
+      default:
+        return [];
+    }
+  }
+}
+
+/**
+ * Create the provider selected by AI_PROVIDER ("openai", "local" or "mock").
+ * Without AI_PROVIDER, OpenAI is used when OPENAI_API_KEY is set, otherwise the mock.
+ */
+export function createLLMProvider(
+  name: string | undefined = process.env.AI_PROVIDER
+): LLMProvider {
+  const selected = name || (process.env.OPENAI_API_KEY ? "openai" : "mock");
+
+  switch (selected) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("Missing OPENAI_API_KEY environment variable");
+      }
+      return new OpenAIProvider({
+        name: "openai",
+        apiKey,
+        model: process.env.AI_MODEL || "gpt-4o",
+        economyModel: process.env.AI_ECONOMY_MODEL || "gpt-4o-mini",
+      });
+    }
+    case "local": {
+      const baseURL = process.env.LOCAL_LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error("Missing LOCAL_LLM_BASE_URL environment variable");
+      }
+      return new OpenAIProvider({
+        name: "local",
+        apiKey: process.env.LOCAL_LLM_API_KEY || "not-needed",
+        baseURL,
+        model: process.env.LOCAL_LLM_MODEL || process.env.AI_MODEL || "llama3",
+      });
+    }
+    case "mock":
+      if (!name) {
+        console.warn("OPENAI_API_KEY not set, using the offline mock AI provider");
+      }
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${selected}". Use openai, local or mock.`);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Local Store
+ * Small JSON file persistence for server-side state that must survive
+ * restarts (mapping memory, usage ledger). Files live in DATA_DIR,
+ * which defaults to ".data" in the project root.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || ".data");
+}
+
+export class JsonFileStore<T> {
+  private filePath: string;
+  private createDefault: () => T;
+
+  constructor(fileName: string, createDefault: () => T) {
+    this.filePath = path.join(getDataDir(), fileName);
+    this.createDefault = createDefault;
+  }
+
+  /**
+   * Read the stored value, or the default if the file is missing or unreadable
+   */
+  read(): T {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as T;
+    } catch {
+      return this.createDefault();
+    }
+  }
+
+  /**
+   * Write the value atomically (temp file + rename) so readers never see partial JSON
+   */
+  write(data: T): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  /**
+   * Read, modify and write back in one step
+   */
+  update(updater: (data: T) => T | void): T {
+    const data = this.read();
+    const next = updater(data) ?? data;
+    this.write(next);
+    return next;
+  }
+}
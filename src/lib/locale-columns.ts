@@ -0,0 +1,169 @@
+/**
+ * Locale Columns
+ * Detects columns that hold one field in several locales, such as "title",
+ * "title (de-DE)" and "title__fr", and checks the resulting locale coverage
+ * against the space's localized fields and fallback rules.
+ */
+
+import type { ContentfulField, ContentfulLocale, FieldMapping, ValidationWarning } from "@/types";
+
+export interface LocaleColumn {
+  base: string;
+  locale: string;
+}
+
+// "title (de-DE)", "title [de-DE]" and "title__de-DE"
+const SUFFIX_PATTERNS = [
+  /^(.*\S)\s*\(([A-Za-z0-9-]+)\)$/,
+  /^(.*\S)\s*\[([A-Za-z0-9-]+)\]$/,
+  /^(.+?)__([A-Za-z0-9-]+)$/,
+];
+
+/**
+ * The base column name and locale of a suffixed header. Only suffixes that
+ * name a locale of the space count, so "Price (EUR)" stays a plain column.
+ */
+export function parseLocaleColumn(header: string, localeCodes: string[]): LocaleColumn | null {
+  for (const pattern of SUFFIX_PATTERNS) {
+    const match = header.trim().match(pattern);
+    if (!match) continue;
+
+    const locale = localeCodes.find((code) => code.toLowerCase() === match[2].toLowerCase());
+    if (locale) {
+      return { base: match[1].trim(), locale };
+    }
+  }
+  return null;
+}
+
+/**
+ * Suffixed headers whose base column is also in the file. They follow the
+ * base column's mapping instead of being mapped on their own.
+ */
+export function localeVariantHeaders(headers: string[], localeCodes: string[]): string[] {
+  return headers.filter((header) => {
+    const parsed = parseLocaleColumn(header, localeCodes);
+    return parsed !== null && headers.includes(parsed.base);
+  });
+}
+
+/**
+ * Tag mappings of suffixed columns with their locale, and map unmapped
+ * suffixed columns to the same localized fields as their base column
+ */
+export function expandLocaleMappings(
+  mappings: FieldMapping[],
+  headers: string[],
+  fields: ContentfulField[],
+  localeCodes: string[]
+): FieldMapping[] {
+  const result = mappings.map((mapping) => {
+    if (mapping.template || mapping.locale) return mapping;
+    const parsed = parseLocaleColumn(mapping.sourceField, localeCodes);
+    return parsed ? { ...mapping, locale: parsed.locale } : mapping;
+  });
+
+  for (const header of headers) {
+    const parsed = parseLocaleColumn(header, localeCodes);
+    if (!parsed || result.some((m) => m.sourceField === header)) continue;
+
+    const baseMappings = result.filter(
+      (m) =>
+        m.sourceField === parsed.base &&
+        !m.template &&
+        !m.locale &&
+        fields.find((f) => f.id === m.targetField)?.localized
+    );
+    for (const mapping of baseMappings) {
+      if (result.some((m) => m.targetField === mapping.targetField && m.locale === parsed.locale)) {
+        continue;
+      }
+      result.push({ ...mapping, sourceField: header, locale: parsed.locale });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Locale problems in a set of mappings: columns for unknown locales or
+ * non-localized fields, and localized fields left empty in a locale the
+ * import writes to without a fallback that has a value
+ */
+export function checkLocaleCoverage(
+  mappings: FieldMapping[],
+  fields: ContentfulField[],
+  locales: ContentfulLocale[],
+  importLocale: string
+): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+  const defaultLocale = locales.find((l) => l.default)?.code || importLocale;
+  const used = new Set<string>([importLocale]);
+
+  for (const mapping of mappings) {
+    if (!mapping.locale) continue;
+    const field = fields.find((f) => f.id === mapping.targetField);
+    if (!field) continue;
+
+    if (!locales.some((l) => l.code === mapping.locale)) {
+      warnings.push({
+        field: field.id,
+        message: `Column "${mapping.sourceField}" is for locale "${mapping.locale}", which doesn't exist in this space`,
+      });
+    } else if (!field.localized && mapping.locale !== defaultLocale) {
+      warnings.push({
+        field: field.id,
+        message: `"${field.name}" isn't localized, so column "${mapping.sourceField}" is ignored; only the ${defaultLocale} value can be imported`,
+      });
+    } else {
+      used.add(mapping.locale);
+    }
+  }
+
+  for (const field of fields.filter((f) => f.localized)) {
+    const covered = new Set(
+      mappings
+        .filter((m) => m.targetField === field.id)
+        .map((m) => m.locale || importLocale)
+    );
+    if (covered.size === 0) continue;
+
+    Array.from(used).forEach((code) => {
+      if (covered.has(code)) return;
+      const locale = locales.find((l) => l.code === code);
+
+      if (field.required && locale && !locale.optional) {
+        warnings.push({
+          field: field.id,
+          message: `Required field "${field.name}" has no column for ${code}, which doesn't allow empty required fields; entries will fail to publish`,
+        });
+      } else if (!fallbackHasValue(code, covered, locales)) {
+        warnings.push({
+          field: field.id,
+          message: `"${field.name}" has no column for ${code} and no fallback locale with a value, so it will be empty in ${code}`,
+        });
+      }
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Whether the fallback chain of a locale reaches one that has a value
+ */
+function fallbackHasValue(
+  code: string,
+  covered: Set<string>,
+  locales: ContentfulLocale[]
+): boolean {
+  const visited = new Set<string>([code]);
+  let next = locales.find((l) => l.code === code)?.fallbackCode;
+
+  while (next && !visited.has(next)) {
+    if (covered.has(next)) return true;
+    visited.add(next);
+    next = locales.find((l) => l.code === next)?.fallbackCode;
+  }
+  return false;
+}
@@ -0,0 +1,155 @@
+/**
+ * Mapping Memory
+ * Remembers field mappings the user confirmed, keyed by content type and a
+ * fingerprint of the file's headers, so repeat uploads skip the AI call.
+ */
+
+import crypto from "crypto";
+import type { FieldMapping } from "@/types";
+import { JsonFileStore } from "./local-store";
+import { templateColumns } from "./mapping-values";
+
+interface RememberedLayout {
+  contentTypeId: string;
+  headers: string[];
+  mappings: FieldMapping[];
+  confirmedAt: string;
+}
+
+type MappingMemoryData = Record<string, RememberedLayout>;
+
+export interface RecalledMappings {
+  mappings: FieldMapping[];
+  // Headers the memory has an answer for, including ones deliberately left unmapped
+  coveredHeaders: string[];
+  exactMatch: boolean;
+}
+
+/**
+ * Order- and case-insensitive fingerprint of a header row
+ */
+export function headerFingerprint(headers: string[]): string {
+  const normalized = headers.map(normalizeHeader).sort();
+  return crypto
+    .createHash("sha256")
+    .update(normalized.join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+/**
+ * A remembered mapping with its columns renamed to how this file spells
+ * them, or null when one of them is missing
+ */
+function toFileHeaders(mapping: FieldMapping, headers: string[]): FieldMapping | null {
+  const spelling = (column: string) =>
+    headers.find((h) => normalizeHeader(h) === normalizeHeader(column));
+
+  const sourceField = spelling(mapping.sourceField);
+  if (sourceField === undefined) return null;
+  if (!mapping.template) {
+    return { ...mapping, sourceField, confidence: 1 };
+  }
+
+  let template = mapping.template;
+  for (const column of templateColumns(mapping.template)) {
+    const current = spelling(column);
+    if (current === undefined) return null;
+    template = template.split(`{${column}}`).join(`{${current}}`);
+  }
+  return { ...mapping, sourceField, template, confidence: 1 };
+}
+
+class MappingMemory {
+  private store = new JsonFileStore<MappingMemoryData>("mapping-memory.json", () => ({}));
+
+  /**
+   * Save confirmed mappings for this content type and header layout
+   */
+  remember(contentTypeId: string, headers: string[], mappings: FieldMapping[]): void {
+    const key = this.key(contentTypeId, headers);
+    this.store.update((data) => {
+      data[key] = {
+        contentTypeId,
+        headers,
+        mappings: mappings
+          .filter((m) => headers.includes(m.sourceField))
+          .map((m) => ({ ...m, confidence: 1 })),
+        confirmedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Recall mappings for a header layout. An exact layout match covers every
+   * header; otherwise headers seen in earlier layouts of the same content
+   * type are reused individually, newest first. Headers match ignoring case
+   * and surrounding spaces, like the fingerprint.
+   */
+  recall(contentTypeId: string, headers: string[]): RecalledMappings {
+    const data = this.store.read();
+    const exact = data[this.key(contentTypeId, headers)];
+
+    if (exact) {
+      return {
+        mappings: exact.mappings
+          .map((m) => toFileHeaders(m, headers))
+          .filter((m): m is FieldMapping => m !== null),
+        coveredHeaders: [...headers],
+        exactMatch: true,
+      };
+    }
+
+    const layouts = Object.values(data)
+      .filter((layout) => layout.contentTypeId === contentTypeId)
+      .sort((a, b) => b.confirmedAt.localeCompare(a.confirmedAt));
+
+    const mappings: FieldMapping[] = [];
+    const coveredHeaders: string[] = [];
+
+    for (const header of headers) {
+      const layout = layouts.find((l) =>
+        l.headers.some((h) => normalizeHeader(h) === normalizeHeader(header))
+      );
+      if (!layout) continue;
+
+      coveredHeaders.push(header);
+      // Combined mappings only carry over when all their columns are present
+      for (const mapping of layout.mappings) {
+        if (normalizeHeader(mapping.sourceField) !== normalizeHeader(header)) continue;
+        const recalled = toFileHeaders(mapping, headers);
+        if (recalled) mappings.push(recalled);
+      }
+    }
+
+    return { mappings, coveredHeaders, exactMatch: false };
+  }
+
+  /**
+   * Forget the mappings for a header layout
+   */
+  forget(contentTypeId: string, headers: string[]): void {
+    const key = this.key(contentTypeId, headers);
+    this.store.update((data) => {
+      delete data[key];
+    });
+  }
+
+  private key(contentTypeId: string, headers: string[]): string {
+    return `${contentTypeId}:${headerFingerprint(headers)}`;
+  }
+}
+
+// Singleton instance for server-side use
+let memory: MappingMemory | null = null;
+
+export function getMappingMemory(): MappingMemory {
+  if (!memory) {
+    memory = new MappingMemory();
+  }
+  return memory;
+}
@@ -0,0 +1,62 @@
+/**
+ * Mapping Values
+ * Reads a mapping's source value from a row: either one column, or several
+ * columns combined through a template such as "{First Name} {Last Name}".
+ */
+
+import type { ContentRow, FieldMapping } from "@/types";
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Column names referenced by a template, in order of appearance
+ */
+export function templateColumns(template: string): string[] {
+  const columns: string[] = [];
+  for (const match of Array.from(template.matchAll(PLACEHOLDER))) {
+    if (!columns.includes(match[1])) columns.push(match[1]);
+  }
+  return columns;
+}
+
+/**
+ * Fill a template from a row. Returns null when every referenced column is
+ * empty so that required-field checks still apply.
+ */
+export function renderTemplate(template: string, row: ContentRow): string | null {
+  const columns = templateColumns(template);
+  const isBlank = (value: ContentRow[string]) =>
+    value === null || value === undefined || String(value).trim() === "";
+
+  if (columns.length === 0 || columns.every((column) => isBlank(row[column]))) {
+    return null;
+  }
+
+  return template
+    .replace(PLACEHOLDER, (_, column: string) =>
+      isBlank(row[column]) ? "" : String(row[column]).trim()
+    )
+    .replace(/ {2,}/g, " ")
+    .trim();
+}
+
+/**
+ * The raw value a mapping reads from a row, before transforms and coercion
+ */
+export function getSourceValue(row: ContentRow, mapping: FieldMapping): ContentRow[string] {
+  return mapping.template ? renderTemplate(mapping.template, row) : row[mapping.sourceField];
+}
+
+/**
+ * How a mapping's source is named in messages: the column, or the template
+ */
+export function mappingLabel(mapping: FieldMapping): string {
+  return mapping.template || mapping.sourceField;
+}
+
+/**
+ * Identifies a mapping; one column may feed several fields
+ */
+export function mappingKey(mapping: FieldMapping): string {
+  return `${mappingLabel(mapping)}\u0000${mapping.targetField}`;
+}
@@ -0,0 +1,257 @@
+/**
+ * Media Bundles
+ * A ZIP upload holds one spreadsheet plus the media files its rows name.
+ * The media files are kept in DATA_DIR/media/<bundleId> between parsing and
+ * import, stored once per content checksum.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { getDataDir } from "./local-store";
+import { mediaContentType } from "./media-files";
+import type { MediaBundle, MediaFile } from "@/types";
+
+interface ZipEntry {
+  path: string;
+  content: Buffer;
+}
+
+// A file as the ZIP's central directory describes it
+interface ZipHeader {
+  path: string;
+  encrypted: boolean;
+  method: number; // 0 stored, 8 deflated
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+export interface BundleContents {
+  spreadsheet: { fileName: string; data: ArrayBuffer };
+  bundle: MediaBundle;
+}
+
+const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+const MANIFEST_FILE = "manifest.json";
+// Bundles older than this are removed whenever a new one is stored
+const BUNDLE_TTL_MS = 24 * 60 * 60 * 1000;
+// What a ZIP may unpack to, so a small archive of highly compressed data
+// can't exhaust the server's memory
+const MAX_ZIP_ENTRIES = 2000;
+const MAX_UNPACKED_BYTES = 250 * 1024 * 1024;
+
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const DIRECTORY_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Store the media files of a ZIP upload and return its spreadsheet
+ */
+export function openMediaBundle(data: ArrayBuffer, zipName: string): BundleContents {
+  const entries = readZip(data);
+
+  const spreadsheets = entries.filter((e) =>
+    SPREADSHEET_EXTENSIONS.includes(path.extname(e.path).toLowerCase())
+  );
+  if (spreadsheets.length === 0) {
+    throw new Error(`"${zipName}" contains no CSV or Excel file`);
+  }
+  if (spreadsheets.length > 1) {
+    throw new Error(
+      `"${zipName}" contains several spreadsheets (${spreadsheets.map((s) => s.path).join(", ")}); include only one`
+    );
+  }
+
+  removeExpiredBundles();
+
+  const bundleId = crypto.randomUUID();
+  const dir = bundleDir(bundleId);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const files: MediaFile[] = [];
+  for (const entry of entries) {
+    const contentType = mediaContentType(entry.path);
+    if (!contentType) continue;
+
+    const checksum = crypto.createHash("sha256").update(entry.content).digest("hex");
+    const filePath = path.join(dir, checksum);
+    if (!fs.existsSync(filePath)) {
+      fs.writeFileSync(filePath, entry.content);
+    }
+    files.push({
+      path: entry.path,
+      fileName: path.posix.basename(entry.path),
+      contentType,
+      size: entry.content.length,
+      checksum,
+    });
+  }
+
+  const bundle: MediaBundle = { bundleId, files };
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(bundle));
+
+  const [spreadsheet] = spreadsheets;
+  return {
+    spreadsheet: {
+      fileName: path.posix.basename(spreadsheet.path),
+      data: toArrayBuffer(spreadsheet.content),
+    },
+    bundle,
+  };
+}
+
+/**
+ * The stored media bundle of an earlier upload
+ */
+export function loadMediaBundle(bundleId: string): MediaBundle {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(bundleDir(bundleId), MANIFEST_FILE), "utf-8"));
+  } catch {
+    throw new Error("The media files of this upload are no longer available; upload the ZIP again");
+  }
+}
+
+/**
+ * Whether an upload's media files are still stored
+ */
+export function hasMediaBundle(bundleId: string): boolean {
+  return fs.existsSync(path.join(bundleDir(bundleId), MANIFEST_FILE));
+}
+
+/**
+ * Content of a media file as an ArrayBuffer, ready for upload
+ */
+export function readMediaFile(bundleId: string, file: MediaFile): ArrayBuffer {
+  return toArrayBuffer(fs.readFileSync(path.join(bundleDir(bundleId), file.checksum)));
+}
+
+function bundleDir(bundleId: string): string {
+  // Bundle IDs come back from the client, so never let one escape the media directory
+  if (!/^[a-f0-9-]{36}$/.test(bundleId)) {
+    throw new Error("Invalid media bundle ID");
+  }
+  return path.join(getDataDir(), "media", bundleId);
+}
+
+/**
+ * Files in a ZIP archive, without folders and macOS metadata. The sizes the
+ * archive declares are checked against the limits before anything is
+ * inflated, and no file may inflate past its declared size.
+ */
+function readZip(data: ArrayBuffer): ZipEntry[] {
+  const zip = Buffer.from(data);
+
+  // The end of directory record closes the archive, followed by a comment of up to 64KB
+  let end = -1;
+  for (let i = zip.length - 22; i >= 0 && i >= zip.length - 22 - 0xffff; i--) {
+    if (zip.readUInt32LE(i) === END_OF_DIRECTORY_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw zipError("it is not a ZIP archive");
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  // Only ZIP64 archives, far beyond the limits, need more entries or offsets than these hold
+  if (count > MAX_ZIP_ENTRIES || count === 0xffff || offset === 0xffffffff) {
+    throw new Error(`The ZIP holds too many files; at most ${MAX_ZIP_ENTRIES} are allowed`);
+  }
+
+  const headers: ZipHeader[] = [];
+  let declaredBytes = 0;
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== DIRECTORY_ENTRY_SIGNATURE) {
+      throw zipError("its file directory is damaged");
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const header: ZipHeader = {
+      // Flag bit 11 marks UTF-8 names
+      path: zip.toString(flags & 0x800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength),
+      encrypted: (flags & 0x1) !== 0,
+      method: zip.readUInt16LE(offset + 10),
+      compressedSize: zip.readUInt32LE(offset + 20),
+      size: zip.readUInt32LE(offset + 24),
+      localOffset: zip.readUInt32LE(offset + 42),
+    };
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+
+    declaredBytes += header.size;
+    if (declaredBytes > MAX_UNPACKED_BYTES) {
+      throw new Error(
+        `The ZIP unpacks to more than ${MAX_UNPACKED_BYTES / 1024 / 1024}MB; split it into smaller uploads`
+      );
+    }
+    headers.push(header);
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const header of headers) {
+    const segments = header.path.split("/");
+    if (
+      header.path.endsWith("/") ||
+      header.size === 0 ||
+      segments.some((s) => s === "__MACOSX" || s.startsWith("."))
+    ) {
+      continue;
+    }
+    if (header.encrypted) {
+      throw zipError(`"${header.path}" is encrypted`);
+    }
+
+    const local = header.localOffset;
+    if (local + 30 > zip.length || zip.readUInt32LE(local) !== LOCAL_HEADER_SIGNATURE) {
+      throw zipError(`"${header.path}" is damaged`);
+    }
+    const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const raw = zip.subarray(start, start + header.compressedSize);
+
+    let content: Buffer;
+    if (header.method === 0) {
+      content = Buffer.from(raw);
+    } else if (header.method === 8) {
+      try {
+        content = zlib.inflateRawSync(raw, { maxOutputLength: header.size });
+      } catch {
+        throw zipError(`"${header.path}" is damaged or larger than the archive says`);
+      }
+    } else {
+      throw zipError(`"${header.path}" uses an unsupported compression method`);
+    }
+    if (content.length !== header.size) {
+      throw zipError(`"${header.path}" is damaged or larger than the archive says`);
+    }
+
+    entries.push({ path: header.path, content });
+  }
+  return entries;
+}
+
+function zipError(reason: string): Error {
+  return new Error(`Failed to read ZIP file: ${reason}`);
+}
+
+function removeExpiredBundles(): void {
+  const mediaDir = path.join(getDataDir(), "media");
+  if (!fs.existsSync(mediaDir)) return;
+
+  for (const name of fs.readdirSync(mediaDir)) {
+    const dir = path.join(mediaDir, name);
+    try {
+      if (Date.now() - fs.statSync(dir).mtimeMs > BUNDLE_TTL_MS) {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    } catch {
+      // Another request may be removing it at the same time
+    }
+  }
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
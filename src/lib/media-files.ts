@@ -0,0 +1,101 @@
+/**
+ * Media Files
+ * Matches spreadsheet cell values such as "hero.jpg" or "/images/kb-001.png"
+ * to the media files of a ZIP upload. Safe to use in the browser; storing
+ * and reading the files is done by media-bundle.ts on the server.
+ */
+
+import type { ContentfulField, MediaFile } from "@/types";
+import { DEFAULT_COERCION_RULES, splitList } from "./value-coercion";
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+};
+
+/**
+ * MIME type of a media file name, or null if it isn't a supported media file
+ */
+export function mediaContentType(fileName: string): string | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  return fileName.includes(".") ? CONTENT_TYPES[extension] || null : null;
+}
+
+// Link fields (single or Array) that point at assets
+export function isAssetField(field: ContentfulField | undefined): boolean {
+  if (!field) return false;
+  if (field.type === "Link") return field.linkType === "Asset";
+  return field.type === "Array" && field.items?.type === "Link" && field.items.linkType === "Asset";
+}
+
+/**
+ * Split a media cell into file names (a list for Array fields, split like
+ * other list cells)
+ */
+export function splitMediaValues(
+  value: string | number | boolean | null | undefined,
+  field: ContentfulField | undefined,
+  separators: string[] = DEFAULT_COERCION_RULES.listSeparators
+): string[] {
+  if (value === null || value === undefined) return [];
+  const text = String(value);
+  return (field?.type === "Array" ? splitList(text, separators) : [text.trim()]).filter(
+    (v) => v !== ""
+  );
+}
+
+/**
+ * Find the file a cell value names. Paths match from the end, so
+ * "/images/hero.jpg" finds "export/images/hero.jpg"; a bare file name
+ * matches wherever the file is, as long as only one file has that name.
+ */
+export function findMediaFile(files: MediaFile[], value: string): MediaFile | undefined {
+  const wanted = normalizePath(value);
+  if (wanted === "") return undefined;
+
+  const byPath = files.filter((file) => {
+    const path = normalizePath(file.path);
+    return path === wanted || path.endsWith(`/${wanted}`) || wanted.endsWith(`/${path}`);
+  });
+  if (byPath.length === 1) return byPath[0];
+  if (byPath.length > 1) {
+    return byPath.find((file) => normalizePath(file.path) === wanted);
+  }
+
+  const name = wanted.split("/").pop();
+  const byName = files.filter((file) => file.fileName.toLowerCase() === name);
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+/**
+ * Asset ID for a file's content. The same file always gets the same ID,
+ * which is how re-imports find the asset they created before.
+ */
+export function mediaAssetId(checksum: string): string {
+  return `media-${checksum.slice(0, 48)}`;
+}
+
+function normalizePath(path: string): string {
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  return decoded
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^(\.?\/)+/, "")
+    .toLowerCase();
+}
@@ -0,0 +1,141 @@
+/**
+ * Rate Limiting
+ * Bounded concurrency and retries for Contentful Management API calls.
+ * A 429 response carries X-Contentful-RateLimit-Reset, the seconds until the
+ * space accepts requests again; every worker waits that long instead of each
+ * retrying on its own. Transient server errors back off exponentially with
+ * full jitter.
+ */
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Shared pause for all workers using one API token
+ */
+export class RateLimitGate {
+  private resumeAt = 0;
+
+  /**
+   * Client responseLogger: sees every response, including failed ones,
+   * before the client turns them into errors
+   */
+  observe = (response: unknown): void => {
+    const res: any = (response as any)?.response ?? response;
+    const headers = res?.headers || {};
+
+    if (res?.status === 429) {
+      const reset = Number(headers["x-contentful-ratelimit-reset"] ?? headers["retry-after"]);
+      this.pauseFor(Number.isFinite(reset) && reset > 0 ? reset * 1000 : 1000);
+    } else if (headers["x-contentful-ratelimit-second-remaining"] === "0") {
+      // The last request this second; wait for the next window rather than get a 429
+      this.pauseFor(1000);
+    }
+  };
+
+  pauseFor(ms: number): void {
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + ms);
+  }
+
+  async wait(): Promise<void> {
+    const ms = this.resumeAt - Date.now();
+    if (ms > 0) {
+      await sleep(ms);
+    }
+  }
+}
+
+/**
+ * HTTP status of a Contentful client error, or null for network errors.
+ * The client serializes the response status into the error message.
+ */
+export function errorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null;
+  try {
+    const status = JSON.parse(error.message)?.status;
+    if (typeof status === "number") return status;
+  } catch {
+    // Not a serialized API error
+  }
+  const match = error.name.match(/^(\d{3}) /);
+  return match ? Number(match[1]) : null;
+}
+
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN", "ECONNREFUSED", "EPIPE"];
+
+/**
+ * Rate limits, server errors other than "not implemented", and dropped connections
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status !== null) {
+    return status === 429 || (status >= 500 && status !== 501);
+  }
+  return NETWORK_ERROR_CODES.includes((error as any)?.code);
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^attempt
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = DEFAULT_RETRY_OPTIONS): number {
+  const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+/**
+ * Run an operation, retrying retryable errors. onRetry is called before each
+ * retry with the error that caused it.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  gate: RateLimitGate,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: unknown) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await gate.wait();
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      onRetry?.(error);
+      await sleep(backoffDelay(attempt, options));
+    }
+  }
+}
+
+/**
+ * Run a worker over every item with at most `concurrency` running at once.
+ * Workers should handle their own errors; one that throws stops the pool.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, run));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
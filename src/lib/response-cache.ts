@@ -0,0 +1,95 @@
+/**
+ * AI Response Cache
+ * Stores AI responses keyed by a hash of provider, model, prompt and
+ * temperature so identical requests (e.g. validating the same file twice)
+ * are answered locally until the entry expires.
+ */
+
+import crypto from "crypto";
+import { JsonFileStore } from "./local-store";
+import type { LLMCompletionResponse, LLMMessage } from "./llm-providers";
+
+interface CacheEntry {
+  response: LLMCompletionResponse;
+  expiresAt: string;
+}
+
+type CacheData = Record<string, CacheEntry>;
+
+// Oldest entries are dropped beyond this many
+const MAX_ENTRIES = 500;
+
+export interface CacheKeyInput {
+  provider: string;
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+}
+
+class ResponseCache {
+  private store = new JsonFileStore<CacheData>("ai-response-cache.json", () => ({}));
+  private ttlMs: number;
+
+  constructor() {
+    // AI_CACHE_TTL_HOURS=0 turns the cache off
+    this.ttlMs = parseFloat(process.env.AI_CACHE_TTL_HOURS || "24") * 60 * 60 * 1000;
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  key({ provider, model, messages, temperature }: CacheKeyInput): string {
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify([provider, model, temperature ?? null, messages]))
+      .digest("hex");
+  }
+
+  /**
+   * The cached response for this key, unless it is missing or expired
+   */
+  get(key: string): LLMCompletionResponse | null {
+    if (!this.enabled) return null;
+
+    const entry = this.store.read()[key];
+    if (!entry || Date.parse(entry.expiresAt) <= Date.now()) {
+      return null;
+    }
+    return entry.response;
+  }
+
+  set(key: string, response: LLMCompletionResponse): void {
+    if (!this.enabled) return;
+
+    const now = Date.now();
+    this.store.update((data) => {
+      const live = Object.entries(data)
+        .filter(([, entry]) => Date.parse(entry.expiresAt) > now)
+        .sort(([, a], [, b]) => b.expiresAt.localeCompare(a.expiresAt))
+        .slice(0, MAX_ENTRIES - 1);
+
+      return {
+        ...Object.fromEntries(live),
+        [key]: { response, expiresAt: new Date(now + this.ttlMs).toISOString() },
+      };
+    });
+  }
+
+  /**
+   * Drop every cached response
+   */
+  clear(): void {
+    this.store.write({});
+  }
+}
+
+// Singleton instance for server-side use
+let cache: ResponseCache | null = null;
+
+export function getResponseCache(): ResponseCache {
+  if (!cache) {
+    cache = new ResponseCache();
+  }
+  return cache;
+}
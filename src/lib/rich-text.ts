@@ -0,0 +1,822 @@
+/**
+ * Rich Text Conversion
+ * Turns markdown or HTML cell text into a Contentful Rich Text document.
+ * Content that has no Rich Text equivalent (images, scripts, ...) is dropped
+ * and reported so validation can flag the row.
+ *
+ * Embedded entries and assets are written as placeholders: "{{entry:ID}}" or
+ * "{{asset:ID}}" on a line of its own becomes an embedded block, and
+ * "{{entry:ID}}" inside text an inline embed. Links to "entry:ID" and
+ * "asset:ID" become entry and asset hyperlinks.
+ */
+
+import { BLOCKS, INLINES, MARKS } from "@contentful/rich-text-types";
+import type { Block, Document, Inline, Text, TopLevelBlock } from "@contentful/rich-text-types";
+
+export interface RichTextConversion {
+  document: Document;
+  // One message per kind of dropped content
+  unsupported: string[];
+}
+
+type InlineNode = Inline | Text;
+
+// Structural nodes that enabledNodeTypes validations never list
+const ALWAYS_ENABLED: string[] = [
+  BLOCKS.DOCUMENT,
+  BLOCKS.PARAGRAPH,
+  BLOCKS.LIST_ITEM,
+  BLOCKS.TABLE_ROW,
+  BLOCKS.TABLE_CELL,
+  BLOCKS.TABLE_HEADER_CELL,
+  "text",
+];
+
+const HTML_HINT = /<(p|div|br|h[1-6]|ul|ol|li|a|b|i|em|strong|blockquote|pre|code|table|span|hr|img)\b[^>]*>/i;
+const PLACEHOLDER = /\{\{(entry|asset):([\w.-]+)\}\}/g;
+const BLOCK_PLACEHOLDER = /^\{\{(entry|asset):([\w.-]+)\}\}$/;
+
+/**
+ * Convert cell text to a Rich Text document. A serialized document is used
+ * as-is; text that contains HTML tags is read as HTML, anything else as markdown.
+ */
+export function toRichText(text: string): RichTextConversion {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed?.nodeType === BLOCKS.DOCUMENT && Array.isArray(parsed.content)) {
+        return { document: parsed, unsupported: [] };
+      }
+    } catch {
+      // Not JSON; convert as text
+    }
+  }
+  return HTML_HINT.test(trimmed) ? htmlToRichText(trimmed) : markdownToRichText(trimmed);
+}
+
+/**
+ * Node types used anywhere in a document, excluding plain structure
+ */
+export function richTextNodeTypes(document: Document): string[] {
+  const types = new Set<string>();
+  walk(document, (node) => {
+    if (!ALWAYS_ENABLED.includes(node.nodeType)) types.add(node.nodeType);
+  });
+  return Array.from(types);
+}
+
+/**
+ * Marks used anywhere in a document
+ */
+export function richTextMarks(document: Document): string[] {
+  const marks = new Set<string>();
+  walk(document, (node) => {
+    if (node.nodeType === "text") {
+      (node as Text).marks.forEach((mark) => marks.add(mark.type));
+    }
+  });
+  return Array.from(marks);
+}
+
+export function isRichTextDocument(value: unknown): value is Document {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Document).nodeType === BLOCKS.DOCUMENT &&
+    Array.isArray((value as Document).content)
+  );
+}
+
+function walk(node: { nodeType: string; content?: unknown[] }, visit: (node: any) => void) {
+  visit(node);
+  for (const child of (node.content || []) as any[]) {
+    walk(child, visit);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Node builders
+// ---------------------------------------------------------------------------
+
+const text = (value: string, marks: string[] = []): Text => ({
+  nodeType: "text",
+  value,
+  marks: marks.map((type) => ({ type })),
+  data: {},
+});
+
+const link = (linkType: "Entry" | "Asset", id: string) => ({
+  target: { sys: { type: "Link", linkType, id } },
+});
+
+const block = (nodeType: BLOCKS, content: Array<Block | Inline | Text> = [], data = {}): Block => ({
+  nodeType,
+  content,
+  data,
+});
+
+/**
+ * A paragraph, or an embedded block when its only content is a placeholder.
+ * Text containers start and end with a text node, as the editor does.
+ */
+function paragraph(content: InlineNode[]): Block {
+  const meaningful = content.filter((n) => n.nodeType !== "text" || (n as Text).value.trim() !== "");
+  if (meaningful.length === 1 && meaningful[0].nodeType === INLINES.EMBEDDED_ENTRY) {
+    return block(BLOCKS.EMBEDDED_ENTRY, [], meaningful[0].data);
+  }
+  if (meaningful.length === 1 && meaningful[0].nodeType === "text") {
+    const embedded = embeddedBlock((meaningful[0] as Text).value);
+    if (embedded) return embedded;
+  }
+  return block(BLOCKS.PARAGRAPH, padded(content));
+}
+
+function padded(content: InlineNode[]): InlineNode[] {
+  const nodes = trimEdges(content);
+  if (nodes.length === 0 || nodes[0].nodeType !== "text") nodes.unshift(text(""));
+  if (nodes[nodes.length - 1].nodeType !== "text") nodes.push(text(""));
+  return nodes;
+}
+
+function trimEdges(content: InlineNode[]): InlineNode[] {
+  const nodes = [...content];
+  const first = nodes[0];
+  if (first?.nodeType === "text") nodes[0] = { ...first, value: first.value.replace(/^\s+/, "") };
+  const last = nodes[nodes.length - 1];
+  if (last?.nodeType === "text") {
+    nodes[nodes.length - 1] = { ...last, value: last.value.replace(/\s+$/, "") };
+  }
+  return nodes;
+}
+
+function hyperlink(href: string, content: Text[]): Inline {
+  const target = href.match(/^(entry|asset):([\w.-]+)$/);
+  if (target) {
+    return {
+      nodeType: target[1] === "entry" ? INLINES.ENTRY_HYPERLINK : INLINES.ASSET_HYPERLINK,
+      data: link(target[1] === "entry" ? "Entry" : "Asset", target[2]),
+      content,
+    };
+  }
+  return { nodeType: INLINES.HYPERLINK, data: { uri: href }, content };
+}
+
+/**
+ * Split text around {{entry:ID}} placeholders. Assets can't be inline, so
+ * inline asset placeholders stay as text.
+ */
+function placeholderNodes(value: string, marks: string[]): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+  PLACEHOLDER.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = PLACEHOLDER.exec(value))) {
+    if (match[1] !== "entry") continue;
+    if (match.index > last) nodes.push(text(value.slice(last, match.index), marks));
+    nodes.push({ nodeType: INLINES.EMBEDDED_ENTRY, data: link("Entry", match[2]), content: [] });
+    last = match.index + match[0].length;
+  }
+  if (last < value.length) nodes.push(text(value.slice(last), marks));
+  return nodes;
+}
+
+// A line that is just a placeholder becomes an embedded block
+function embeddedBlock(line: string): Block | null {
+  const match = line.trim().match(BLOCK_PLACEHOLDER);
+  if (!match) return null;
+  return match[1] === "entry"
+    ? block(BLOCKS.EMBEDDED_ENTRY, [], link("Entry", match[2]))
+    : block(BLOCKS.EMBEDDED_ASSET, [], link("Asset", match[2]));
+}
+
+// Blockquotes only hold paragraphs
+function quote(children: Block[]): Block {
+  return block(
+    BLOCKS.QUOTE,
+    children.map((child) =>
+      child.nodeType === BLOCKS.PARAGRAPH
+        ? child
+        : paragraph([text(plainText(child))])
+    )
+  );
+}
+
+function plainText(node: { nodeType: string; content?: unknown[]; value?: string }): string {
+  if (node.nodeType === "text") return node.value || "";
+  return ((node.content || []) as any[]).map(plainText).join(" ");
+}
+
+function documentOf(content: Block[]): Document {
+  return {
+    nodeType: BLOCKS.DOCUMENT,
+    data: {},
+    content: (content.length > 0 ? content : [paragraph([])]) as TopLevelBlock[],
+  };
+}
+
+class Reporter {
+  private messages = new Set<string>();
+
+  add(message: string) {
+    this.messages.add(message);
+  }
+
+  list(): string[] {
+    return Array.from(this.messages);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Convert markdown (CommonMark subset plus tables) to Rich Text
+ */
+export function markdownToRichText(markdown: string): RichTextConversion {
+  const reporter = new Reporter();
+  const content = parseMarkdownBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"), reporter);
+  return { document: documentOf(content), unsupported: reporter.list() };
+}
+
+function parseMarkdownBlocks(lines: string[], reporter: Reporter): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    // Fenced code: Rich Text has no code block, so it becomes code-marked text
+    if (FENCE.test(line)) {
+      const fence = line.trim().slice(0, 3);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence)) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push(block(BLOCKS.PARAGRAPH, [text(code.join("\n"), [MARKS.CODE])]));
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push(block(HEADING_BLOCKS[level - 1], padded(parseInline(heading[2], [], reporter))));
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push(block(BLOCKS.HR));
+      i++;
+      continue;
+    }
+
+    const embedded = embeddedBlock(line);
+    if (embedded) {
+      blocks.push(embedded);
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*>\s?/, ""));
+        i++;
+      }
+      blocks.push(quote(parseMarkdownBlocks(quoted, reporter)));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const listLines: string[] = [];
+      const ordered = isOrderedItem(line);
+      while (
+        i < lines.length &&
+        (sameList(lines[i], line, ordered) ||
+          (lines[i].trim() !== "" && /^\s+/.test(lines[i])) ||
+          (lines[i].trim() === "" && i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])))
+      ) {
+        listLines.push(lines[i]);
+        i++;
+      }
+      blocks.push(parseList(listLines, reporter));
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows = [line];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim() !== "") {
+        rows.push(lines[i]);
+        i++;
+      }
+      blocks.push(parseTable(rows, reporter));
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block starts
+    const paragraphLines = [line.trim()];
+    i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !HEADING.test(lines[i]) &&
+      !FENCE.test(lines[i]) &&
+      !/^\s*>/.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i]) &&
+      !embeddedBlock(lines[i])
+    ) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    const content = parseInline(paragraphLines.join(" "), [], reporter);
+    if (content.some((n) => n.nodeType !== "text" || (n as Text).value.trim() !== "")) {
+      blocks.push(paragraph(content));
+    }
+  }
+
+  return blocks;
+}
+
+const HEADING_BLOCKS = [
+  BLOCKS.HEADING_1,
+  BLOCKS.HEADING_2,
+  BLOCKS.HEADING_3,
+  BLOCKS.HEADING_4,
+  BLOCKS.HEADING_5,
+  BLOCKS.HEADING_6,
+];
+
+function isOrderedItem(line: string): boolean {
+  return /\d/.test(line.match(LIST_ITEM)?.[2] || "");
+}
+
+// Items at the first item's indentation must be of the same kind; deeper ones nest
+function sameList(line: string, first: string, ordered: boolean): boolean {
+  const item = line.match(LIST_ITEM);
+  if (!item) return false;
+  return item[1].length > first.match(LIST_ITEM)![1].length || isOrderedItem(line) === ordered;
+}
+
+/**
+ * Lists nest by indentation; continuation lines belong to the item above
+ */
+function parseList(lines: string[], reporter: Reporter): Block {
+  const first = lines[0].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = isOrderedItem(lines[0]);
+  const items: string[][] = [];
+
+  for (const line of lines) {
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length <= indent) {
+      items.push([item[3]]);
+    } else if (items.length > 0) {
+      // Nested content keeps its indentation relative to the item
+      items[items.length - 1].push(line.slice(Math.min(indent + 2, line.search(/\S|$/))));
+    }
+  }
+
+  return block(
+    ordered ? BLOCKS.OL_LIST : BLOCKS.UL_LIST,
+    items.map((itemLines) => {
+      const content = parseMarkdownBlocks(itemLines, reporter).filter(
+        (child) => child.nodeType !== BLOCKS.TABLE
+      );
+      return block(BLOCKS.LIST_ITEM, content.length > 0 ? content : [paragraph([])]);
+    })
+  );
+}
+
+/**
+ * Table cells only hold paragraphs: embedded entries stay inline, and
+ * embedded assets, which can't be inline, stay as their placeholder text
+ */
+function cellParagraphs(blocks: Block[], reporter: Reporter): Block[] {
+  const paragraphs = blocks.flatMap((b): Block[] => {
+    if (b.nodeType === BLOCKS.PARAGRAPH) return [b];
+    if (b.nodeType === BLOCKS.EMBEDDED_ENTRY) {
+      return [block(BLOCKS.PARAGRAPH, padded([{ nodeType: INLINES.EMBEDDED_ENTRY, data: b.data, content: [] }]))];
+    }
+    if (b.nodeType === BLOCKS.EMBEDDED_ASSET) {
+      const id = b.data.target.sys.id;
+      reporter.add(`asset ${id} can't be embedded in a table cell and was kept as text`);
+      return [block(BLOCKS.PARAGRAPH, [text(`{{asset:${id}}}`)])];
+    }
+    return [];
+  });
+  return paragraphs.length > 0 ? paragraphs : [paragraph([])];
+}
+
+function parseTable(rows: string[], reporter: Reporter): Block {
+  const cells = (row: string) =>
+    row
+      .trim()
+      .replace(/^\|/, "")
+      .replace(/\|$/, "")
+      .split("|")
+      .map((cell) => cell.trim());
+
+  return block(
+    BLOCKS.TABLE,
+    rows.map((row, index) =>
+      block(
+        BLOCKS.TABLE_ROW,
+        cells(row).map((cell) =>
+          block(
+            index === 0 ? BLOCKS.TABLE_HEADER_CELL : BLOCKS.TABLE_CELL,
+            cellParagraphs([paragraph(parseInline(cell, [], reporter))], reporter)
+          )
+        )
+      )
+    )
+  );
+}
+
+// Inline syntax, earliest match wins. Groups:
+// 1-2 code, 3 image alt, 4-5 link text/href, 6-7 placeholder, 8-9 strong
+// emphasis, 10-11 strong, 12 strikethrough, 13-14 emphasis, 15 autolink,
+// 16 escaped character
+const INLINE =
+  /(`+)([\s\S]*?[^`])\1(?!`)|!\[([^\]]*)\]\([^)]*\)|\[([^\]]+)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)|\{\{(entry|asset):([\w.-]+)\}\}|(\*\*\*|___)(?=[^\s*_])([\s\S]*?[^\s*_])\8|(\*\*|__)(?=\S)([\s\S]*?\S)\10|~~(?=\S)([\s\S]*?\S)~~|(\*|_)(?=[^\s*_])([\s\S]*?[^\s\\])\13|<(https?:\/\/[^>\s]+)>|\\([\\`*_{}[\]()#+\-.!~<>|])/;
+
+const WORD_CHARACTER = /[^\W_]/;
+
+function parseInline(source: string, marks: string[], reporter: Reporter): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let rest = source;
+
+  while (rest.length > 0) {
+    const match = rest.match(INLINE);
+    if (!match || match.index === undefined) {
+      nodes.push(text(rest, marks));
+      break;
+    }
+
+    // Underscores inside a word, as in a_b_c or file_name.png, are not emphasis
+    const delimiter = match[8] || match[10] || match[13] || "";
+    const underscores = delimiter.startsWith("_") ? delimiter.length : 0;
+    if (underscores > 0) {
+      const offset = source.length - rest.length + match.index;
+      if (WORD_CHARACTER.test(source.charAt(offset - 1)) || WORD_CHARACTER.test(source.charAt(offset + match[0].length))) {
+        nodes.push(text(rest.slice(0, match.index + underscores), marks));
+        rest = rest.slice(match.index + underscores);
+        continue;
+      }
+    }
+
+    if (match.index > 0) nodes.push(text(rest.slice(0, match.index), marks));
+    rest = rest.slice(match.index + match[0].length);
+
+    if (match[1]) {
+      nodes.push(text(match[2].trim(), [...marks, MARKS.CODE]));
+    } else if (match[3] !== undefined) {
+      reporter.add(
+        `image "${match[3] || "untitled"}" was dropped; upload it as an asset and use {{asset:ID}}`
+      );
+    } else if (match[4]) {
+      const content = parseInline(match[4], marks, reporter).filter(
+        (n): n is Text => n.nodeType === "text"
+      );
+      nodes.push(hyperlink(match[5], content.length > 0 ? content : [text(match[5])]));
+    } else if (match[6]) {
+      nodes.push(...placeholderNodes(match[0], marks));
+    } else if (match[8]) {
+      nodes.push(...parseInline(match[9], [...marks, MARKS.BOLD, MARKS.ITALIC], reporter));
+    } else if (match[10]) {
+      nodes.push(...parseInline(match[11], [...marks, MARKS.BOLD], reporter));
+    } else if (match[12]) {
+      nodes.push(...parseInline(match[12], [...marks, MARKS.STRIKETHROUGH], reporter));
+    } else if (match[13]) {
+      nodes.push(...parseInline(match[14], [...marks, MARKS.ITALIC], reporter));
+    } else if (match[15]) {
+      nodes.push(hyperlink(match[15], [text(match[15], marks)]));
+    } else if (match[16]) {
+      nodes.push(text(match[16], marks));
+    }
+  }
+
+  return mergeText(nodes);
+}
+
+// Adjacent text nodes with the same marks become one
+function mergeText(nodes: InlineNode[]): InlineNode[] {
+  const merged: InlineNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (
+      node.nodeType === "text" &&
+      previous?.nodeType === "text" &&
+      markKey(previous as Text) === markKey(node as Text)
+    ) {
+      merged[merged.length - 1] = { ...(previous as Text), value: (previous as Text).value + node.value };
+    } else if (node.nodeType !== "text" || (node as Text).value !== "") {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+function markKey(node: Text): string {
+  return node.marks.map((m) => m.type).sort().join(",");
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = ["br", "hr", "img", "input", "meta", "link", "source", "col", "wbr"];
+const DROPPED_TAGS = ["img", "iframe", "video", "audio", "object", "embed", "svg", "canvas", "form", "input", "button", "select", "textarea"];
+const IGNORED_TAGS = ["script", "style", "head", "title", "meta", "link", "template"];
+const CONTAINER_TAGS = ["div", "section", "article", "main", "header", "footer", "aside", "nav", "body", "html", "figure", "thead", "tbody", "tfoot", "center"];
+const BLOCK_TAGS = [
+  ...CONTAINER_TAGS,
+  "p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre", "hr", "table", "tr", "figcaption",
+];
+const MARK_TAGS: Record<string, string> = {
+  b: MARKS.BOLD,
+  strong: MARKS.BOLD,
+  i: MARKS.ITALIC,
+  em: MARKS.ITALIC,
+  u: MARKS.UNDERLINE,
+  code: MARKS.CODE,
+  s: MARKS.STRIKETHROUGH,
+  strike: MARKS.STRIKETHROUGH,
+  del: MARKS.STRIKETHROUGH,
+  sup: MARKS.SUPERSCRIPT,
+  sub: MARKS.SUBSCRIPT,
+};
+
+/**
+ * Convert an HTML fragment to Rich Text
+ */
+export function htmlToRichText(html: string): RichTextConversion {
+  const reporter = new Reporter();
+  const content = htmlBlocks(parseHtml(html), reporter);
+  return { document: documentOf(content), unsupported: reporter.list() };
+}
+
+/**
+ * Lenient HTML parser: unknown or unclosed tags never fail, they just nest
+ */
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { tag: "#root", attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tag = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(html))) {
+    const parent = stack[stack.length - 1];
+    if (match.index > last) parent.children.push(decodeEntities(html.slice(last, match.index)));
+    last = match.index + match[0].length;
+    if (!match[2]) continue; // comment
+
+    const name = match[2].toLowerCase();
+    if (match[1]) {
+      const open = stack.map((e) => e.tag).lastIndexOf(name);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+
+    const element: HtmlElement = { tag: name, attributes: parseAttributes(match[3]), children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.includes(name) && !match[3].trim().endsWith("/")) {
+      stack.push(element);
+    }
+  }
+  if (last < html.length) stack[stack.length - 1].children.push(decodeEntities(html.slice(last)));
+
+  return root.children;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attribute = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = attribute.exec(source))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  copy: "©",
+  reg: "®",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCharCode(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function isBlockElement(node: HtmlNode): boolean {
+  return typeof node !== "string" && BLOCK_TAGS.includes(node.tag);
+}
+
+/**
+ * Block-level conversion; runs of inline content become paragraphs
+ */
+function htmlBlocks(nodes: HtmlNode[], reporter: Reporter): Block[] {
+  const blocks: Block[] = [];
+  let run: HtmlNode[] = [];
+
+  const flush = () => {
+    const content = run.flatMap((node) => htmlInlines(node, [], reporter));
+    run = [];
+    if (content.some((n) => n.nodeType !== "text" || (n as Text).value.trim() !== "")) {
+      blocks.push(...paragraphsOf(content));
+    }
+  };
+
+  for (const node of nodes) {
+    if (!isBlockElement(node)) {
+      run.push(node);
+      continue;
+    }
+    flush();
+
+    const element = node as HtmlElement;
+    const heading = element.tag.match(/^h([1-6])$/);
+
+    if (heading) {
+      const content = collapse(element.children.flatMap((c) => htmlInlines(c, [], reporter)));
+      blocks.push(block(HEADING_BLOCKS[Number(heading[1]) - 1], padded(content)));
+    } else if (element.tag === "p" || element.tag === "figcaption") {
+      const content = collapse(element.children.flatMap((c) => htmlInlines(c, [], reporter)));
+      blocks.push(...paragraphsOf(content));
+    } else if (element.tag === "ul" || element.tag === "ol") {
+      const items = element.children
+        .filter((c): c is HtmlElement => typeof c !== "string" && c.tag === "li")
+        .map((li) => {
+          const content = htmlBlocks(li.children, reporter).filter((b) => b.nodeType !== BLOCKS.TABLE);
+          return block(BLOCKS.LIST_ITEM, content.length > 0 ? content : [paragraph([])]);
+        });
+      blocks.push(block(element.tag === "ol" ? BLOCKS.OL_LIST : BLOCKS.UL_LIST, items));
+    } else if (element.tag === "li") {
+      blocks.push(...htmlBlocks(element.children, reporter));
+    } else if (element.tag === "blockquote") {
+      blocks.push(quote(htmlBlocks(element.children, reporter)));
+    } else if (element.tag === "pre") {
+      blocks.push(block(BLOCKS.PARAGRAPH, [text(textContent(element).replace(/^\n|\n$/g, ""), [MARKS.CODE])]));
+    } else if (element.tag === "hr") {
+      blocks.push(block(BLOCKS.HR));
+    } else if (element.tag === "table") {
+      blocks.push(htmlTable(element, reporter));
+    } else if (element.tag === "tr") {
+      blocks.push(block(BLOCKS.TABLE, [htmlTableRow(element, reporter)]));
+    } else {
+      blocks.push(...htmlBlocks(element.children, reporter));
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+// A paragraph's inline content, split where a placeholder stands alone on a
+// line. <br> newlines are merged into the text around them by now.
+function paragraphsOf(content: InlineNode[]): Block[] {
+  const trimmed = collapse(content);
+  const lines: InlineNode[][] = [[]];
+  for (const node of trimmed) {
+    if (node.nodeType !== "text") {
+      lines[lines.length - 1].push(node);
+      continue;
+    }
+    (node as Text).value.split("\n").forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part !== "") lines[lines.length - 1].push({ ...(node as Text), value: part });
+    });
+  }
+
+  const hasEmbed = lines.some((line) => {
+    if (line.length === 0) return false;
+    const nodeType = paragraph(line).nodeType;
+    return nodeType === BLOCKS.EMBEDDED_ENTRY || nodeType === BLOCKS.EMBEDDED_ASSET;
+  });
+  if (!hasEmbed) return [paragraph(trimmed)];
+
+  return lines
+    .filter((line) => line.some((n) => n.nodeType !== "text" || (n as Text).value.trim() !== ""))
+    .map(paragraph);
+}
+
+function htmlTable(table: HtmlElement, reporter: Reporter): Block {
+  const rows: HtmlElement[] = [];
+  const collect = (nodes: HtmlNode[]) => {
+    for (const node of nodes) {
+      if (typeof node === "string") continue;
+      if (node.tag === "tr") rows.push(node);
+      else if (["thead", "tbody", "tfoot"].includes(node.tag)) collect(node.children);
+    }
+  };
+  collect(table.children);
+  return block(BLOCKS.TABLE, rows.map((row) => htmlTableRow(row, reporter)));
+}
+
+function htmlTableRow(row: HtmlElement, reporter: Reporter): Block {
+  const cells = row.children.filter(
+    (c): c is HtmlElement => typeof c !== "string" && (c.tag === "td" || c.tag === "th")
+  );
+  return block(
+    BLOCKS.TABLE_ROW,
+    cells.map((cell) =>
+      block(
+        cell.tag === "th" ? BLOCKS.TABLE_HEADER_CELL : BLOCKS.TABLE_CELL,
+        cellParagraphs(htmlBlocks(cell.children, reporter), reporter)
+      )
+    )
+  );
+}
+
+function htmlInlines(node: HtmlNode, marks: string[], reporter: Reporter): InlineNode[] {
+  if (typeof node === "string") {
+    return placeholderNodes(node.replace(/\s+/g, " "), marks);
+  }
+
+  if (IGNORED_TAGS.includes(node.tag)) {
+    reporter.add(`<${node.tag}> content was dropped`);
+    return [];
+  }
+  if (DROPPED_TAGS.includes(node.tag)) {
+    reporter.add(
+      node.tag === "img"
+        ? `image "${node.attributes.alt || node.attributes.src || "untitled"}" was dropped; upload it as an asset and use {{asset:ID}}`
+        : `<${node.tag}> is not supported in Rich Text and was dropped`
+    );
+    return [];
+  }
+  if (node.tag === "br") {
+    return [text("\n", marks)];
+  }
+  if (node.tag === "a" && node.attributes.href) {
+    const content = node.children
+      .flatMap((c) => htmlInlines(c, marks, reporter))
+      .filter((n): n is Text => n.nodeType === "text");
+    return [hyperlink(node.attributes.href, content.length > 0 ? content : [text(node.attributes.href, marks)])];
+  }
+
+  const mark = MARK_TAGS[node.tag];
+  const childMarks = mark && !marks.includes(mark) ? [...marks, mark] : marks;
+  if (isBlockElement(node)) {
+    // Block inside inline content, e.g. <span><p>..</p></span>: keep its text
+    return [...node.children.flatMap((c) => htmlInlines(c, childMarks, reporter)), text(" ", marks)];
+  }
+  return node.children.flatMap((c) => htmlInlines(c, childMarks, reporter));
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") return node;
+  if (node.tag === "br") return "\n";
+  return node.children.map(textContent).join("");
+}
+
+// Collapse whitespace between inline nodes the way a browser renders it
+function collapse(nodes: InlineNode[]): InlineNode[] {
+  const merged = mergeText(nodes).map((node) =>
+    node.nodeType === "text" && (node as Text).value !== "\n"
+      ? { ...(node as Text), value: (node as Text).value.replace(/ {2,}/g, " ") }
+      : node
+  );
+  return trimEdges(merged);
+}
@@ -0,0 +1,336 @@
+/**
+ * Row Validation
+ * Validates every spreadsheet row against the mapped content type fields.
+ * Runs in chunks and yields between them so large files don't block the
+ * event loop, which lets the browser render progress while it works.
+ */
+
+import type {
+  CoercionRules,
+  ContentfulField,
+  ContentRow,
+  FieldMapping,
+  MediaFile,
+  TakenValue,
+  ValidationError,
+  ValidationErrorSummary,
+} from "@/types";
+import { coerceValue, DEFAULT_COERCION_RULES } from "./value-coercion";
+import { checkFieldValidations, requiresUnique } from "./field-validations";
+import { applyTransforms } from "./transforms";
+import { getSourceValue, mappingLabel } from "./mapping-values";
+import { findMediaFile, splitMediaValues } from "./media-files";
+
+export interface RowValidationOptions {
+  rules?: CoercionRules;
+  chunkSize?: number;
+  // Locales that allow empty required fields; their columns may be left blank
+  optionalLocales?: string[];
+  // Media files of a ZIP upload, for columns that name files
+  mediaFiles?: MediaFile[];
+  // Values of unique fields that entries in Contentful already hold
+  takenValues?: TakenValue[];
+  // Upsert match field: a row may keep the unique values of the entry it updates
+  matchField?: string;
+  onProgress?: (validatedRows: number, totalRows: number) => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 500;
+const SUMMARY_SAMPLE_ROWS = 10;
+
+/**
+ * Validate all rows, reporting progress after each chunk
+ */
+export async function validateRows(
+  rows: ContentRow[],
+  mappings: FieldMapping[],
+  fields: ContentfulField[],
+  options: RowValidationOptions = {}
+): Promise<ValidationError[]> {
+  const rules = options.rules || DEFAULT_COERCION_RULES;
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const errors: ValidationError[] = [];
+
+  // First row seen for each value of fields that must be unique
+  const seenValues = new Map<string, Map<string, number>>();
+
+  const targets = mappings
+    .map((mapping) => ({
+      mapping,
+      field: fields.find((f) => f.id === mapping.targetField),
+    }))
+    .filter((t): t is { mapping: FieldMapping; field: ContentfulField } => !!t.field);
+  const matchMapping = options.matchField
+    ? mappings.find((m) => m.targetField === options.matchField)
+    : undefined;
+
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    const end = Math.min(start + chunkSize, rows.length);
+
+    for (let i = start; i < end; i++) {
+      const row = rows[i];
+      const rowNumber = i + 2; // Account for header row and 0-indexing
+      const matchValue = matchMapping ? transformedText(row, matchMapping) : null;
+
+      for (const { mapping, field } of targets) {
+        const cell = getSourceValue(row, mapping);
+        const source = mappingLabel(mapping);
+
+        // Validate the value the import will write, after the mapping's transforms
+        const transformed = mapping.reference || mapping.media
+          ? { ok: true as const, value: cell }
+          : applyTransforms(cell, mapping.transforms);
+        if (!transformed.ok) {
+          errors.push({
+            row: rowNumber,
+            field: source,
+            message: transformed.message,
+            value: cell,
+            rule: "transform",
+          });
+          continue;
+        }
+        const value = transformed.value;
+
+        if (mapping.media) {
+          for (const name of splitMediaValues(cell, field, rules.listSeparators)) {
+            if (!findMediaFile(options.mediaFiles || [], name)) {
+              errors.push({
+                row: rowNumber,
+                field: source,
+                message: `No file "${name}" in the uploaded ZIP`,
+                value: cell,
+                rule: "media",
+              });
+            }
+          }
+        }
+
+        const required =
+          field.required && !(mapping.locale && options.optionalLocales?.includes(mapping.locale));
+        errors.push(
+          ...validateFieldValue(
+            value,
+            { ...field, required },
+            rowNumber,
+            source,
+            rules,
+            mapping.reference?.contentTypeId,
+            mapping.media ? "Asset" : mapping.reference ? "Entry" : undefined
+          ).map((error) => ({ ...error, value: cell }))
+        );
+
+        // Values only need to be unique within a locale
+        if (requiresUnique(field) && !isEmpty(value)) {
+          const uniqueKey = `${field.id}\u0000${mapping.locale || ""}`;
+          const seen = seenValues.get(uniqueKey) || new Map<string, number>();
+          const key = String(value).trim();
+          const firstRow = seen.get(key);
+          if (firstRow !== undefined) {
+            errors.push({
+              row: rowNumber,
+              field: source,
+              message: `"${field.name}" must be unique (unique), "${key}" is also used in row ${firstRow}`,
+              value: cell,
+              rule: "unique",
+            });
+          } else {
+            seen.set(key, rowNumber);
+          }
+          seenValues.set(uniqueKey, seen);
+
+          const holder = options.takenValues?.find(
+            (t) =>
+              t.fieldId === field.id &&
+              t.value === key &&
+              (!mapping.locale || t.locale === mapping.locale) &&
+              !(matchValue !== null && t.matchValue === matchValue)
+          );
+          if (holder) {
+            errors.push({
+              row: rowNumber,
+              field: source,
+              message: `"${field.name}" must be unique (unique), entry ${holder.entryId} already has "${key}"`,
+              value: cell,
+              rule: "unique",
+            });
+          }
+        }
+      }
+    }
+
+    options.onProgress?.(end, rows.length);
+
+    if (end < rows.length) {
+      await yieldToEventLoop();
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Values the rows give fields that must be unique, by field id, after the
+ * mappings' transforms. Look them up in Contentful and pass the ones entries
+ * already hold back to validateRows as takenValues.
+ */
+export function uniqueFieldValues(
+  rows: ContentRow[],
+  mappings: FieldMapping[],
+  fields: ContentfulField[]
+): Record<string, string[]> {
+  const values: Record<string, string[]> = {};
+
+  for (const mapping of mappings) {
+    const field = fields.find((f) => f.id === mapping.targetField);
+    if (!field || !requiresUnique(field) || mapping.reference || mapping.media) continue;
+
+    const fieldValues = new Set(values[field.id] || []);
+    for (const row of rows) {
+      const text = transformedText(row, mapping);
+      if (text !== null) fieldValues.add(text);
+    }
+    values[field.id] = Array.from(fieldValues);
+  }
+
+  return values;
+}
+
+/**
+ * Group errors by source column and failed rule, most frequent first
+ */
+export function summarizeValidationErrors(
+  errors: ValidationError[]
+): ValidationErrorSummary[] {
+  const groups = new Map<string, ValidationErrorSummary>();
+
+  for (const error of errors) {
+    const rule = error.rule || "other";
+    const key = `${error.field}\u0000${rule}`;
+    const group = groups.get(key);
+
+    if (group) {
+      group.count++;
+      if (error.row !== undefined && group.rows.length < SUMMARY_SAMPLE_ROWS) {
+        group.rows.push(error.row);
+      }
+    } else {
+      groups.set(key, {
+        field: error.field,
+        rule,
+        message: error.message,
+        count: 1,
+        rows: error.row !== undefined ? [error.row] : [],
+      });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Validate a single field value
+ */
+function validateFieldValue(
+  value: any,
+  field: ContentfulField,
+  rowNumber: number,
+  sourceField: string,
+  rules: CoercionRules,
+  linkedContentTypeId?: string,
+  // Set for reference and media cells, which the import writes as links
+  linkType?: "Entry" | "Asset"
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  // Check required
+  if (field.required && isEmpty(value)) {
+    errors.push({
+      row: rowNumber,
+      field: sourceField,
+      message: `Required field "${field.name}" is empty`,
+      value,
+      rule: "required",
+    });
+    return errors;
+  }
+
+  if (isEmpty(value)) {
+    return errors;
+  }
+
+  // Check the links the import writes rather than the cell text, so rules
+  // such as size count linked items instead of characters
+  if (linkType) {
+    const links = splitMediaValues(value, field, rules.listSeparators).map((id) => ({
+      sys: { type: "Link", linkType, id },
+    }));
+    const linked = field.type === "Array" ? links : links[0];
+    for (const violation of checkFieldValidations(linked, field, { linkedContentTypeId })) {
+      errors.push({
+        row: rowNumber,
+        field: sourceField,
+        message: violation.message,
+        value,
+        rule: violation.rule,
+      });
+    }
+    return errors;
+  }
+
+  // Type validation uses the same coercion as the import
+  const coerced = coerceValue(value, field, rules);
+  if (!coerced.ok) {
+    errors.push({
+      row: rowNumber,
+      field: sourceField,
+      message: coerced.message,
+      value,
+      rule: "type",
+    });
+    return errors;
+  }
+
+  // Rich Text conversion drops what it can't represent; the row should say so
+  for (const note of coerced.notes || []) {
+    errors.push({
+      row: rowNumber,
+      field: sourceField,
+      message: `"${field.name}": ${note}`,
+      value,
+      rule: "richText",
+    });
+  }
+
+  // Contentful validation rules on the coerced value
+  for (const violation of checkFieldValidations(coerced.value, field, { linkedContentTypeId })) {
+    errors.push({
+      row: rowNumber,
+      field: sourceField,
+      message: violation.message,
+      value,
+      rule: violation.rule,
+    });
+  }
+
+  return errors;
+}
+
+// A mapping's value for a row after its transforms, as compared for uniqueness
+function transformedText(row: ContentRow, mapping: FieldMapping): string | null {
+  const transformed = applyTransforms(getSourceValue(row, mapping), mapping.transforms);
+  return transformed.ok && !isEmpty(transformed.value) ? String(transformed.value).trim() : null;
+}
+
+function isEmpty(value: any): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
@@ -1,49 +1,118 @@
 /**
  * Token Budget Tracker
- * Tracks OpenAI API usage and enforces spending limits
+ * Records every AI call in a durable usage ledger and enforces spending
+ * limits over rolling daily (24h) and monthly (30 day) windows
  */
 
+import { JsonFileStore } from "./local-store";
+import type { UsageBreakdown, UsageReport } from "@/types";
+
 interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
   estimatedCost: number;
   calls: number;
+  cachedCalls: number;
 }
 
 interface BudgetConfig {
-  maxTokens: number;
-  maxCost: number; // in USD
+  maxTokens: number; // per rolling day
+  maxCost: number; // in USD, per rolling day
+  monthlyMaxTokens: number; // per rolling 30 days
+  monthlyMaxCost: number; // in USD, per rolling 30 days
   warningThreshold: number; // percentage (0-1)
 }
 
-// GPT-4o pricing (as of 2024)
-const PRICING = {
-  "gpt-4o": {
-    input: 2.5 / 1_000_000, // $2.50 per 1M input tokens
-    output: 10 / 1_000_000, // $10 per 1M output tokens
-  },
-  "gpt-4o-mini": {
-    input: 0.15 / 1_000_000,
-    output: 0.6 / 1_000_000,
+// One ledger entry per AI call
+interface UsageRecord {
+  timestamp: string;
+  provider: string;
+  model: string;
+  task: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  cached?: boolean; // served from the response cache; no tokens were spent
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+// Records older than this are dropped from the ledger
+const RETENTION_MS = 90 * DAY_MS;
+
+interface ModelPricing {
+  input: number; // USD per input token
+  output: number; // USD per output token
+}
+
+// Pricing per provider and model (OpenAI as of 2024)
+const PRICING: Record<string, Record<string, ModelPricing>> = {
+  openai: {
+    "gpt-4o": {
+      input: 2.5 / 1_000_000, // $2.50 per 1M input tokens
+      output: 10 / 1_000_000, // $10 per 1M output tokens
+    },
+    "gpt-4o-mini": {
+      input: 0.15 / 1_000_000,
+      output: 0.6 / 1_000_000,
+    },
   },
+  // Self-hosted and mock models have no per-token cost
+  local: {},
+  mock: {},
 };
 
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+/**
+ * Look up pricing for a provider/model. Unknown OpenAI models are priced
+ * like gpt-4o so the budget errs on the side of caution.
+ */
+export function getModelPricing(provider: string, model: string): ModelPricing {
+  const providerPricing = PRICING[provider];
+  if (!providerPricing) {
+    return FREE;
+  }
+  return (
+    providerPricing[model] ||
+    (provider === "openai" ? PRICING.openai["gpt-4o"] : FREE)
+  );
+}
+
+/**
+ * Estimated USD cost of a call with the given token counts
+ */
+export function estimateCallCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = getModelPricing(provider, model);
+  return promptTokens * pricing.input + completionTokens * pricing.output;
+}
+
 class TokenBudgetTracker {
-  private usage: TokenUsage = {
-    promptTokens: 0,
-    completionTokens: 0,
-    totalTokens: 0,
-    estimatedCost: 0,
-    calls: 0,
-  };
+  private ledger = new JsonFileStore<UsageRecord[]>("usage-ledger.json", () => []);
 
   private config: BudgetConfig;
 
   constructor() {
+    const maxTokens = parseInt(process.env.OPENAI_MAX_TOKENS || "100000", 10);
+    const maxCost = parseFloat(process.env.OPENAI_MAX_COST_USD || "1.00");
+
     this.config = {
-      maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || "100000", 10),
-      maxCost: parseFloat(process.env.OPENAI_MAX_COST_USD || "1.00"),
+      maxTokens,
+      maxCost,
+      monthlyMaxTokens: parseInt(
+        process.env.OPENAI_MONTHLY_MAX_TOKENS || String(maxTokens * 30),
+        10
+      ),
+      monthlyMaxCost: parseFloat(
+        process.env.OPENAI_MONTHLY_MAX_COST_USD || String(maxCost * 30)
+      ),
       warningThreshold: parseFloat(
         process.env.OPENAI_WARNING_THRESHOLD || "0.8"
       ),
@@ -51,111 +120,260 @@ class TokenBudgetTracker {
   }
 
   /**
-   * Check if we can make an API call within budget
+   * Check if we can make an API call within the daily and monthly budgets
    */
-  canMakeCall(estimatedTokens: number = 2500): {
+  canMakeCall(estimatedTokens: number = 2500, estimatedCost: number = 0): {
     allowed: boolean;
     reason?: string;
     remaining: { tokens: number; cost: number };
   } {
-    const remainingTokens = this.config.maxTokens - this.usage.totalTokens;
-    const remainingCost = this.config.maxCost - this.usage.estimatedCost;
-
-    if (this.usage.totalTokens + estimatedTokens > this.config.maxTokens) {
-      return {
-        allowed: false,
-        reason: `Token budget exceeded. Used ${this.usage.totalTokens}/${this.config.maxTokens} tokens.`,
-        remaining: { tokens: remainingTokens, cost: remainingCost },
-      };
-    }
+    const records = this.ledger.read();
+    const daily = this.sumWindow(records, DAY_MS);
+    const monthly = this.sumWindow(records, MONTH_MS);
 
-    if (this.usage.estimatedCost >= this.config.maxCost) {
-      return {
-        allowed: false,
-        reason: `Cost budget exceeded. Spent $${this.usage.estimatedCost.toFixed(4)}/$${this.config.maxCost.toFixed(2)}.`,
-        remaining: { tokens: remainingTokens, cost: remainingCost },
-      };
+    const remaining = {
+      tokens: Math.min(
+        this.config.maxTokens - daily.totalTokens,
+        this.config.monthlyMaxTokens - monthly.totalTokens
+      ),
+      cost: Math.min(
+        this.config.maxCost - daily.estimatedCost,
+        this.config.monthlyMaxCost - monthly.estimatedCost
+      ),
+    };
+
+    const windows = [
+      { label: "Daily", usage: daily, maxTokens: this.config.maxTokens, maxCost: this.config.maxCost },
+      { label: "Monthly", usage: monthly, maxTokens: this.config.monthlyMaxTokens, maxCost: this.config.monthlyMaxCost },
+    ];
+
+    for (const { label, usage, maxTokens, maxCost } of windows) {
+      if (usage.totalTokens + estimatedTokens > maxTokens) {
+        return {
+          allowed: false,
+          reason: `${label} token budget exceeded. Used ${usage.totalTokens}/${maxTokens} tokens.`,
+          remaining,
+        };
+      }
+
+      if (usage.estimatedCost >= maxCost || usage.estimatedCost + estimatedCost > maxCost) {
+        return {
+          allowed: false,
+          reason: `${label} cost budget exceeded. Spent $${usage.estimatedCost.toFixed(4)}/$${maxCost.toFixed(2)}.`,
+          remaining,
+        };
+      }
     }
 
-    return {
-      allowed: true,
-      remaining: { tokens: remainingTokens, cost: remainingCost },
-    };
+    return { allowed: true, remaining };
   }
 
   /**
-   * Record token usage from an API call
+   * Record token usage from an API call in the ledger
    */
   recordUsage(
     promptTokens: number,
     completionTokens: number,
-    model: "gpt-4o" | "gpt-4o-mini" = "gpt-4o"
+    model: string = "gpt-4o",
+    provider: string = "openai",
+    task: string = "unknown"
   ): void {
-    const pricing = PRICING[model];
-    const callCost =
-      promptTokens * pricing.input + completionTokens * pricing.output;
-
-    this.usage.promptTokens += promptTokens;
-    this.usage.completionTokens += completionTokens;
-    this.usage.totalTokens += promptTokens + completionTokens;
-    this.usage.estimatedCost += callCost;
-    this.usage.calls += 1;
-
-    // Log warning if approaching limit
-    const tokenPercent = this.usage.totalTokens / this.config.maxTokens;
-    const costPercent = this.usage.estimatedCost / this.config.maxCost;
-
-    if (
-      tokenPercent >= this.config.warningThreshold ||
-      costPercent >= this.config.warningThreshold
-    ) {
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      provider,
+      model,
+      task,
+      promptTokens,
+      completionTokens,
+      cost: estimateCallCost(provider, model, promptTokens, completionTokens),
+    };
+
+    const records = this.appendRecord(record);
+
+    // Log warning if approaching either limit
+    const daily = this.sumWindow(records, DAY_MS);
+    const monthly = this.sumWindow(records, MONTH_MS);
+    const usedPercent = Math.max(
+      daily.totalTokens / this.config.maxTokens,
+      daily.estimatedCost / this.config.maxCost,
+      monthly.totalTokens / this.config.monthlyMaxTokens,
+      monthly.estimatedCost / this.config.monthlyMaxCost
+    );
+
+    if (usedPercent >= this.config.warningThreshold) {
       console.warn(
-        `⚠️ Token budget warning: ${(Math.max(tokenPercent, costPercent) * 100).toFixed(1)}% of budget used`
+        `⚠️ Token budget warning: ${(usedPercent * 100).toFixed(1)}% of budget used`
       );
     }
   }
 
   /**
-   * Get current usage stats
+   * Record an AI call answered from the response cache, at zero cost
+   */
+  recordCacheHit(model: string, provider: string, task: string = "unknown"): void {
+    this.appendRecord({
+      timestamp: new Date().toISOString(),
+      provider,
+      model,
+      task,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      cached: true,
+    });
+  }
+
+  /**
+   * Get usage stats for the rolling day, plus the rolling month
    */
-  getUsage(): TokenUsage & { budget: BudgetConfig } {
+  getUsage(): TokenUsage & { monthly: TokenUsage; budget: BudgetConfig } {
+    const records = this.ledger.read();
     return {
-      ...this.usage,
+      ...this.sumWindow(records, DAY_MS),
+      monthly: this.sumWindow(records, MONTH_MS),
       budget: this.config,
     };
   }
 
   /**
-   * Reset usage (for new session)
+   * Usage over the rolling month broken down by task, model and day
    */
-  reset(): void {
-    this.usage = {
-      promptTokens: 0,
-      completionTokens: 0,
-      totalTokens: 0,
-      estimatedCost: 0,
-      calls: 0,
+  getReport(): UsageReport {
+    const { monthly, budget, ...daily } = this.getUsage();
+    const records = this.getRecords(new Date(Date.now() - MONTH_MS));
+    const check = this.canMakeCall(0);
+
+    const usedPercent = Math.max(
+      daily.totalTokens / budget.maxTokens,
+      daily.estimatedCost / budget.maxCost,
+      monthly.totalTokens / budget.monthlyMaxTokens,
+      monthly.estimatedCost / budget.monthlyMaxCost
+    );
+
+    return {
+      daily,
+      monthly,
+      budget,
+      remaining: {
+        tokens: Math.max(0, check.remaining.tokens),
+        cost: Math.max(0, check.remaining.cost),
+      },
+      usedPercent,
+      warning: usedPercent >= budget.warningThreshold,
+      byTask: this.breakdown(records, (r) => r.task),
+      byModel: this.breakdown(records, (r) => `${r.provider}/${r.model}`),
+      byDay: this.breakdown(records, (r) => r.timestamp.slice(0, 10)).sort((a, b) =>
+        b.key.localeCompare(a.key)
+      ),
     };
   }
 
+  /**
+   * Get ledger records, optionally only those since a point in time
+   */
+  getRecords(since?: Date): UsageRecord[] {
+    const records = this.ledger.read();
+    return since
+      ? records.filter((r) => Date.parse(r.timestamp) >= since.getTime())
+      : records;
+  }
+
+  /**
+   * Reset usage by clearing the ledger
+   */
+  reset(): void {
+    this.ledger.write([]);
+  }
+
   /**
    * Get formatted usage summary
    */
   getSummary(): string {
+    const { monthly, ...daily } = this.getUsage();
     const tokenPercent = (
-      (this.usage.totalTokens / this.config.maxTokens) *
+      (daily.totalTokens / this.config.maxTokens) *
       100
     ).toFixed(1);
     const costPercent = (
-      (this.usage.estimatedCost / this.config.maxCost) *
+      (daily.estimatedCost / this.config.maxCost) *
       100
     ).toFixed(1);
 
-    return `AI Usage: ${this.usage.calls} calls | ${this.usage.totalTokens.toLocaleString()}/${this.config.maxTokens.toLocaleString()} tokens (${tokenPercent}%) | $${this.usage.estimatedCost.toFixed(4)}/$${this.config.maxCost.toFixed(2)} (${costPercent}%)`;
+    return `AI Usage (24h): ${daily.calls} calls (${daily.cachedCalls} cached) | ${daily.totalTokens.toLocaleString()}/${this.config.maxTokens.toLocaleString()} tokens (${tokenPercent}%) | $${daily.estimatedCost.toFixed(4)}/$${this.config.maxCost.toFixed(2)} (${costPercent}%) | 30d: $${monthly.estimatedCost.toFixed(4)}/$${this.config.monthlyMaxCost.toFixed(2)}`;
+  }
+
+  /**
+   * Add a record to the ledger, dropping records past retention
+   */
+  private appendRecord(record: UsageRecord): UsageRecord[] {
+    const cutoff = Date.now() - RETENTION_MS;
+    return this.ledger.update((existing) => [
+      ...existing.filter((r) => Date.parse(r.timestamp) >= cutoff),
+      record,
+    ]);
+  }
+
+  /**
+   * Group records by key and total each group, largest cost first
+   */
+  private breakdown(
+    records: UsageRecord[],
+    keyOf: (record: UsageRecord) => string
+  ): UsageBreakdown[] {
+    const groups = new Map<string, UsageBreakdown>();
+
+    for (const record of records) {
+      const key = keyOf(record);
+      const group = groups.get(key) || {
+        key,
+        calls: 0,
+        cachedCalls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: 0,
+      };
+      group.calls += 1;
+      group.cachedCalls += record.cached ? 1 : 0;
+      group.promptTokens += record.promptTokens;
+      group.completionTokens += record.completionTokens;
+      group.totalTokens += record.promptTokens + record.completionTokens;
+      group.estimatedCost += record.cost;
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.estimatedCost - a.estimatedCost);
+  }
+
+  /**
+   * Total the records inside a rolling window ending now
+   */
+  private sumWindow(records: UsageRecord[], windowMs: number): TokenUsage {
+    const since = Date.now() - windowMs;
+    const usage: TokenUsage = {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+      calls: 0,
+      cachedCalls: 0,
+    };
+
+    for (const record of records) {
+      if (Date.parse(record.timestamp) < since) continue;
+      usage.promptTokens += record.promptTokens;
+      usage.completionTokens += record.completionTokens;
+      usage.totalTokens += record.promptTokens + record.completionTokens;
+      usage.estimatedCost += record.cost;
+      usage.calls += 1;
+      usage.cachedCalls += record.cached ? 1 : 0;
+    }
+
+    return usage;
   }
 }
 
-// Singleton instance for the session
+// Singleton instance; usage itself lives in the ledger
 let tracker: TokenBudgetTracker | null = null;
 
 export function getTokenBudgetTracker(): TokenBudgetTracker {
@@ -169,4 +387,4 @@ export function resetTokenBudget(): void {
   tracker = null;
 }
 
-export type { TokenUsage, BudgetConfig };
+export type { TokenUsage, BudgetConfig, ModelPricing, UsageRecord };
@@ -0,0 +1,35 @@
+/**
+ * Token Estimation
+ * Counts prompt tokens locally before an AI call so budget checks and the
+ * cost preview use the real prompt size instead of a fixed guess.
+ */
+
+import { countTokens } from "gpt-tokenizer/encoding/o200k_base";
+import type { LLMMessage } from "./llm-providers";
+
+// Chat format overhead: role and separators per message, plus reply priming
+const TOKENS_PER_MESSAGE = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+/**
+ * Prompt tokens for a chat request. Uses the GPT-4o tokenizer, which is
+ * exact for OpenAI models and a close approximation for local ones.
+ */
+export function countPromptTokens(messages: LLMMessage[]): number {
+  return messages.reduce(
+    (sum, message) => sum + countTokens(message.content) + TOKENS_PER_MESSAGE,
+    REPLY_PRIMING_TOKENS
+  );
+}
+
+/**
+ * Worst-case tokens for a call: the prompt plus the full completion allowance
+ */
+export function estimateCallTokens(messages: LLMMessage[], maxTokens: number) {
+  const promptTokens = countPromptTokens(messages);
+  return {
+    promptTokens,
+    maxCompletionTokens: maxTokens,
+    totalTokens: promptTokens + maxTokens,
+  };
+}
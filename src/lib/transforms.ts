@@ -0,0 +1,362 @@
+/**
+ * Value Transforms
+ * A small library of declarative transforms (no code evaluation) that
+ * reshape cell values before type coercion. Steps run in order; after a
+ * split, later steps apply to each item of the list.
+ */
+
+import type { ContentRow, TransformStep, TransformType } from "@/types";
+import { parseWithFormat } from "./value-coercion";
+
+export type TransformValue = ContentRow[string] | string[];
+
+export type TransformResult =
+  | { ok: true; value: TransformValue }
+  | { ok: false; message: string };
+
+// Keeps user and AI supplied patterns cheap to compile and run
+const MAX_PATTERN_LENGTH = 200;
+const ALLOWED_REGEX_FLAGS = /^[gimsu]*$/;
+
+const CURRENCY_SYMBOLS = /[$€£¥₹₩₽¢₺₪₫฿]/g;
+
+export const TRANSFORM_LABELS: Record<TransformType, string> = {
+  split: "Split into list",
+  join: "Join list",
+  dateFormat: "Reformat date",
+  case: "Change case",
+  slugify: "Slugify",
+  regexReplace: "Regex replace",
+  lookup: "Lookup table",
+  parseNumber: "Parse number",
+};
+
+/**
+ * A step of the given type with sensible defaults, for the editor
+ */
+export function createTransformStep(type: TransformType): TransformStep {
+  switch (type) {
+    case "split":
+      return { type, separator: "," };
+    case "join":
+      return { type, separator: ", " };
+    case "dateFormat":
+      return { type, from: "DD/MM/YYYY", to: "YYYY-MM-DD" };
+    case "case":
+      return { type, to: "lower" };
+    case "slugify":
+      return { type };
+    case "regexReplace":
+      return { type, pattern: "", replacement: "", flags: "g" };
+    case "lookup":
+      return { type, entries: [], keepUnmatched: true };
+    case "parseNumber":
+      return { type, decimalSeparator: "." };
+  }
+}
+
+/**
+ * Problem with a step's settings, or null if it can run
+ */
+export function checkTransformStep(step: TransformStep): string | null {
+  switch (step.type) {
+    case "split":
+      return step.separator === "" ? "Split needs a separator" : null;
+    case "dateFormat":
+      return /YYYY/.test(step.from) && /YYYY/.test(step.to)
+        ? null
+        : "Date formats must include YYYY";
+    case "regexReplace": {
+      if (step.pattern === "") return "Regex replace needs a pattern";
+      if (step.pattern.length > MAX_PATTERN_LENGTH) {
+        return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+      }
+      if (!ALLOWED_REGEX_FLAGS.test(step.flags || "")) {
+        return "Regex flags may only use g, i, m, s and u";
+      }
+      try {
+        new RegExp(step.pattern, step.flags);
+      } catch (error) {
+        return `Invalid pattern: ${error instanceof Error ? error.message : "syntax error"}`;
+      }
+      return backtrackingRisk(step.pattern, step.flags || "");
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Why a pattern could backtrack exponentially on values that almost match,
+ * or null. Every row runs the pattern on the server, so these are rejected
+ * up front:
+ * - a repeated group that contains a quantifier, as in (a+)+ or (\w*\s)*
+ * - a repeated group with alternatives, as in (a|aa)+
+ * - repeated parts in a row that match the same characters, as in \d+\d*
+ */
+function backtrackingRisk(pattern: string, flags: string): string | null {
+  const groups: PatternGroup[] = [{ quantified: false, alternates: false }];
+  // What a quantifier here would repeat: a character or class, or the group just closed
+  let atom: string | PatternGroup | null = null;
+  // The character or class before it, if it repeats
+  let repeated: string | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const bounds = char === "{" ? pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/) : null;
+
+    if (char === "*" || char === "+" || char === "?" || bounds) {
+      if (atom === null) continue;
+      const repeats =
+        char === "*" ||
+        char === "+" ||
+        (bounds !== null &&
+          (bounds[2] ? bounds[3] === "" || Number(bounds[3]) > 1 : Number(bounds[1]) > 1));
+      if (bounds) i += bounds[0].length - 1;
+      if (pattern[i + 1] === "?") i++; // lazy
+
+      groups[groups.length - 1].quantified = true;
+      if (typeof atom !== "string") {
+        if (repeats && atom.quantified) {
+          return "Patterns can't repeat a group that itself repeats, such as (a+)+; it can take forever on some values";
+        }
+        if (repeats && atom.alternates) {
+          return "Patterns can't repeat a group with alternatives, such as (a|aa)+; it can take forever on some values. A character class such as [ab]+ often does the same job";
+        }
+        repeated = null;
+      } else if (repeats) {
+        if (repeated !== null && canOverlap(repeated, atom, flags)) {
+          return `Patterns can't repeat two neighbouring parts that match the same characters (${repeated} and ${atom}); it can take forever on some values`;
+        }
+        repeated = atom;
+      } else {
+        repeated = null;
+      }
+      atom = null;
+      continue;
+    }
+
+    // Anything but a group boundary between two repeated parts separates them
+    if (atom !== null) repeated = null;
+
+    if (char === "(") {
+      groups.push({ quantified: false, alternates: false });
+      const prefix = pattern.slice(i + 1).match(/^\?(:|=|!|<=|<!|<[^>]*>)/);
+      if (prefix) i += prefix[0].length;
+      atom = null;
+    } else if (char === ")" && groups.length > 1) {
+      const group = groups.pop()!;
+      const parent = groups[groups.length - 1];
+      parent.quantified ||= group.quantified;
+      parent.alternates ||= group.alternates;
+      atom = group;
+    } else if (char === "|") {
+      groups[groups.length - 1].alternates = true;
+      atom = null;
+      repeated = null;
+    } else if (char === "^" || char === "$") {
+      atom = null;
+      repeated = null;
+    } else if (char === "\\") {
+      const length = pattern[i + 1] === "u" ? 6 : pattern[i + 1] === "x" ? 4 : 2;
+      atom = pattern.slice(i, i + length);
+      i += length - 1;
+    } else if (char === "[") {
+      // ] right after [ or [^ is a literal
+      const start = i;
+      i += pattern[i + 1] === "^" ? 2 : 1;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+      atom = pattern.slice(start, i + 1);
+    } else {
+      atom = char;
+    }
+  }
+
+  return null;
+}
+
+interface PatternGroup {
+  quantified: boolean; // contains a quantifier
+  alternates: boolean; // contains a |
+}
+
+// Characters tried against two single-character parts to see if both can match
+const OVERLAP_PROBES = Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)).concat([
+  "é",
+  "ß",
+  "\u00a0",
+  "€",
+  "中",
+]);
+
+function canOverlap(first: string, second: string, flags: string): boolean {
+  try {
+    const a = new RegExp(`^(?:${first})$`, flags.replace("g", ""));
+    const b = new RegExp(`^(?:${second})$`, flags.replace("g", ""));
+    return OVERLAP_PROBES.some((probe) => a.test(probe) && b.test(probe));
+  } catch {
+    // Not a single character after all; the pattern check reports real syntax errors
+    return true;
+  }
+}
+
+/**
+ * Run the steps over a cell value. Empty cells pass through untouched.
+ */
+export function applyTransforms(
+  value: ContentRow[string],
+  steps: TransformStep[] | undefined
+): TransformResult {
+  if (!steps?.length || value === null || value === undefined || value === "") {
+    return { ok: true, value };
+  }
+
+  let current: TransformValue = value;
+
+  for (const step of steps) {
+    const problem = checkTransformStep(step);
+    if (problem) {
+      return { ok: false, message: `${TRANSFORM_LABELS[step.type]}: ${problem}` };
+    }
+
+    try {
+      current = applyStep(current, step);
+    } catch (error) {
+      return {
+        ok: false,
+        message: `${TRANSFORM_LABELS[step.type]}: ${error instanceof Error ? error.message : "failed"}`,
+      };
+    }
+  }
+
+  return { ok: true, value: current };
+}
+
+/**
+ * Short human-readable summary of a step
+ */
+export function describeTransform(step: TransformStep): string {
+  switch (step.type) {
+    case "split":
+      return `Split on "${step.separator}"`;
+    case "join":
+      return `Join with "${step.separator}"`;
+    case "dateFormat":
+      return `Date ${step.from} → ${step.to}`;
+    case "case":
+      return `${step.to[0].toUpperCase()}${step.to.slice(1)} case`;
+    case "slugify":
+      return "Slugify";
+    case "regexReplace":
+      return `Replace /${step.pattern}/${step.flags || ""} with "${step.replacement}"`;
+    case "lookup":
+      return `Lookup (${step.entries.length} entries)`;
+    case "parseNumber":
+      return `Number with "${step.decimalSeparator}" decimals`;
+  }
+}
+
+function applyStep(value: TransformValue, step: TransformStep): TransformValue {
+  if (step.type === "split") {
+    const items = Array.isArray(value) ? value : [String(value)];
+    return items
+      .flatMap((item) => item.split(step.separator))
+      .map((item) => item.trim())
+      .filter((item) => item !== "");
+  }
+
+  if (step.type === "join") {
+    return Array.isArray(value) ? value.join(step.separator) : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => String(applyScalarStep(item, step)));
+  }
+  return value === null || value === undefined ? value : applyScalarStep(value, step);
+}
+
+function applyScalarStep(value: NonNullable<ContentRow[string]>, step: TransformStep): string | number {
+  const text = String(value).trim();
+
+  switch (step.type) {
+    case "dateFormat": {
+      const iso = parseWithFormat(text, step.from);
+      if (!iso) {
+        throw new Error(`"${text}" does not match ${step.from}`);
+      }
+      return formatDate(iso, step.to);
+    }
+
+    case "case":
+      switch (step.to) {
+        case "upper":
+          return text.toUpperCase();
+        case "lower":
+          return text.toLowerCase();
+        case "title":
+          return text
+            .toLowerCase()
+            .replace(/(^|[\s\-_/])(\S)/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+        case "sentence":
+          return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+      }
+      return text;
+
+    case "slugify":
+      return text
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+
+    case "regexReplace":
+      return text.replace(new RegExp(step.pattern, step.flags), step.replacement);
+
+    case "lookup": {
+      const entry = step.entries.find((e) => e.from.trim().toLowerCase() === text.toLowerCase());
+      if (entry) return entry.to;
+      if (step.keepUnmatched) return text;
+      throw new Error(`no entry for "${text}"`);
+    }
+
+    case "parseNumber": {
+      if (typeof value === "number") return value;
+      // Only currency symbols, spaces and digit grouping are dropped; anything else is an error
+      const grouping = step.decimalSeparator === "," ? /[.\s']/g : /[,\s']/g;
+      const normalized = text
+        .replace(CURRENCY_SYMBOLS, "")
+        .replace(grouping, "")
+        .replace(",", ".");
+      if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized)) {
+        throw new Error(`"${text}" is not a number`);
+      }
+      return Number(normalized);
+    }
+
+    default:
+      return text;
+  }
+}
+
+/**
+ * Render an ISO date ("2026-02-01" or "2026-02-01T09:30") in a format
+ */
+function formatDate(iso: string, format: string): string {
+  const [date, time = ""] = iso.split("T");
+  const [year, month, day] = date.split("-");
+  const [hour = "00", minute = "00", second = "00"] = time ? time.split(":") : [];
+  const parts: Record<string, string> = {
+    YYYY: year,
+    MM: month,
+    DD: day,
+    HH: hour,
+    mm: minute,
+    ss: second,
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
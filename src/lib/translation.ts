@@ -0,0 +1,90 @@
+/**
+ * Translation
+ * Picks the text fields that can be translated, collects their values in the
+ * import locale, and fills other locales from reviewed translations at import.
+ */
+
+import type {
+  CoercionRules,
+  ContentfulField,
+  ContentRow,
+  FieldMapping,
+  FieldTranslations,
+} from "@/types";
+import { applyTransforms } from "./transforms";
+import { coerceValue } from "./value-coercion";
+import { getSourceValue } from "./mapping-values";
+
+/**
+ * Localized Symbol and Text fields mapped in the import locale, with their mapping
+ */
+export function translatableFields(
+  fields: ContentfulField[],
+  mappings: FieldMapping[],
+  importLocale: string
+): { field: ContentfulField; mapping: FieldMapping }[] {
+  const result: { field: ContentfulField; mapping: FieldMapping }[] = [];
+
+  for (const field of fields) {
+    if (!field.localized || (field.type !== "Symbol" && field.type !== "Text")) continue;
+
+    const mapping = mappings.find(
+      (m) =>
+        m.targetField === field.id &&
+        !m.reference &&
+        (m.locale === undefined || m.locale === importLocale)
+    );
+    if (mapping) {
+      result.push({ field, mapping });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Distinct non-empty values a mapping writes, exactly as the import will write them
+ */
+export function collectSourceTexts(
+  rows: ContentRow[],
+  mapping: FieldMapping,
+  field: ContentfulField,
+  rules?: CoercionRules
+): string[] {
+  const texts = new Set<string>();
+
+  for (const row of rows) {
+    const transformed = applyTransforms(getSourceValue(row, mapping), mapping.transforms);
+    if (!transformed.ok || transformed.value === null || transformed.value === undefined) continue;
+
+    const coerced = coerceValue(transformed.value, field, rules);
+    if (coerced.ok && typeof coerced.value === "string" && coerced.value !== "") {
+      texts.add(coerced.value);
+    }
+  }
+
+  return Array.from(texts);
+}
+
+/**
+ * Fill empty locales of an entry's fields from translations of its source-locale values
+ */
+export function applyTranslations(
+  fields: Record<string, any>,
+  translations: FieldTranslations[]
+): Record<string, any> {
+  for (const { field, sourceLocale, locale, values } of translations) {
+    const source = fields[field]?.[sourceLocale];
+    const current = fields[field]?.[locale];
+    if (typeof source !== "string" || (current !== undefined && current !== null && current !== "")) {
+      continue;
+    }
+
+    const translated = values[source.trim()];
+    if (translated) {
+      fields[field] = { ...fields[field], [locale]: translated };
+    }
+  }
+
+  return fields;
+}
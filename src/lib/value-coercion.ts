@@ -0,0 +1,262 @@
+/**
+ * Value Coercion
+ * Converts spreadsheet cell values into the shape each Contentful field type expects.
+ * Shared by validation and import so that what validates is exactly what imports.
+ */
+
+import type { CoercionRules, ContentfulField, ContentRow } from "@/types";
+import { toRichText } from "./rich-text";
+
+// Transforms can turn a cell into a list of values
+type CellValue = ContentRow[string] | string[];
+
+export type CoercionResult =
+  // Notes describe content that was dropped during conversion
+  | { ok: true; value: any; notes?: string[] }
+  | { ok: false; message: string };
+
+export const DEFAULT_COERCION_RULES: CoercionRules = {
+  dateFormats: ["YYYY-MM-DD", "YYYY-MM-DD HH:mm", "DD/MM/YYYY", "DD.MM.YYYY"],
+  listSeparators: [",", ";", "|"],
+  truthyValues: ["true", "yes", "y", "1", "on"],
+  falsyValues: ["false", "no", "n", "0", "off"],
+};
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Merge partial rules over the defaults
+ */
+export function resolveCoercionRules(
+  rules?: Partial<CoercionRules>
+): CoercionRules {
+  return {
+    dateFormats: rules?.dateFormats?.length
+      ? rules.dateFormats
+      : DEFAULT_COERCION_RULES.dateFormats,
+    listSeparators: rules?.listSeparators?.length
+      ? rules.listSeparators
+      : DEFAULT_COERCION_RULES.listSeparators,
+    truthyValues: rules?.truthyValues?.length
+      ? rules.truthyValues
+      : DEFAULT_COERCION_RULES.truthyValues,
+    falsyValues: rules?.falsyValues?.length
+      ? rules.falsyValues
+      : DEFAULT_COERCION_RULES.falsyValues,
+  };
+}
+
+/**
+ * Coerce a non-empty cell value to the type of the target field
+ */
+export function coerceValue(
+  value: CellValue,
+  field: Pick<ContentfulField, "name" | "type" | "items">,
+  rules: CoercionRules = DEFAULT_COERCION_RULES
+): CoercionResult {
+  if (value === null || value === undefined) {
+    return { ok: true, value };
+  }
+
+  if (Array.isArray(value)) {
+    if (field.type === "Array") {
+      return { ok: true, value: value.map((v) => v.trim()).filter((v) => v !== "") };
+    }
+    value = value.join(", ");
+  }
+
+  const text = String(value).trim();
+
+  switch (field.type) {
+    case "Symbol":
+    case "Text":
+      return { ok: true, value: text };
+
+    case "Integer": {
+      const num = parseNumber(value);
+      if (num === null || !Number.isInteger(num)) {
+        return { ok: false, message: `"${field.name}" should be a whole number` };
+      }
+      return { ok: true, value: num };
+    }
+
+    case "Number": {
+      const num = parseNumber(value);
+      if (num === null) {
+        return { ok: false, message: `"${field.name}" should be a number` };
+      }
+      return { ok: true, value: num };
+    }
+
+    case "Boolean": {
+      if (typeof value === "boolean") return { ok: true, value };
+      const word = text.toLowerCase();
+      if (rules.truthyValues.some((v) => v.toLowerCase() === word)) {
+        return { ok: true, value: true };
+      }
+      if (rules.falsyValues.some((v) => v.toLowerCase() === word)) {
+        return { ok: true, value: false };
+      }
+      return {
+        ok: false,
+        message: `"${field.name}" should be a boolean value (${[...rules.truthyValues, ...rules.falsyValues].join(", ")})`,
+      };
+    }
+
+    case "Date": {
+      const date = parseDate(value, rules.dateFormats);
+      if (date === null) {
+        return {
+          ok: false,
+          message: `"${field.name}" should be a date (${rules.dateFormats.join(", ")})`,
+        };
+      }
+      return { ok: true, value: date };
+    }
+
+    case "Location": {
+      const match = text.match(/^(-?\d+(?:\.\d+)?)\s*[,;]\s*(-?\d+(?:\.\d+)?)$/);
+      const lat = match ? Number(match[1]) : NaN;
+      const lon = match ? Number(match[2]) : NaN;
+      if (!match || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+        return {
+          ok: false,
+          message: `"${field.name}" should be a "latitude, longitude" pair`,
+        };
+      }
+      return { ok: true, value: { lat, lon } };
+    }
+
+    case "Object": {
+      try {
+        const parsed = JSON.parse(text);
+        if (parsed === null || typeof parsed !== "object") {
+          throw new Error("not an object");
+        }
+        return { ok: true, value: parsed };
+      } catch {
+        return { ok: false, message: `"${field.name}" should be valid JSON` };
+      }
+    }
+
+    case "RichText": {
+      const { document, unsupported } = toRichText(text);
+      return { ok: true, value: document, notes: unsupported };
+    }
+
+    case "Array":
+      if (field.items?.type === "Symbol") {
+        return { ok: true, value: splitList(text, rules.listSeparators) };
+      }
+      return { ok: true, value: text };
+
+    default:
+      return { ok: true, value: typeof value === "string" ? text : value };
+  }
+}
+
+/**
+ * Split a list cell on the first separator that appears in it
+ */
+export function splitList(text: string, separators: string[]): string[] {
+  const separator = separators.find((s) => text.includes(s));
+  const parts = separator ? text.split(separator) : [text];
+  return parts.map((p) => p.trim()).filter((p) => p !== "");
+}
+
+/**
+ * Parse a number, accepting "1,234.5" style thousands separators
+ */
+function parseNumber(value: CellValue): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  let text = String(value).trim();
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/,/g, "");
+  }
+  if (text === "" || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return null;
+  }
+  return Number(text);
+}
+
+/**
+ * Parse a date using the configured formats, returning an ISO 8601 string.
+ * Date-only values stay date-only ("2026-02-01"); values with a time keep it.
+ */
+function parseDate(value: CellValue, formats: string[]): string | null {
+  if (typeof value === "number") {
+    const date = new Date(EXCEL_EPOCH_MS + value * MS_PER_DAY);
+    if (isNaN(date.getTime())) return null;
+    const iso = date.toISOString();
+    return Number.isInteger(value) ? iso.slice(0, 10) : iso.slice(0, 16);
+  }
+
+  const text = String(value).trim();
+
+  for (const format of formats) {
+    const parsed = parseWithFormat(text, format);
+    if (parsed) return parsed;
+  }
+
+  // Full ISO timestamps are always accepted as-is
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(text) && !isNaN(Date.parse(text))) {
+    return text;
+  }
+
+  return null;
+}
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  MM: "(\\d{1,2})",
+  DD: "(\\d{1,2})",
+  HH: "(\\d{1,2})",
+  mm: "(\\d{2})",
+  ss: "(\\d{2})",
+};
+
+/**
+ * Parse text in a single date format such as "DD/MM/YYYY" into ISO 8601
+ */
+export function parseWithFormat(text: string, format: string): string | null {
+  const order: string[] = [];
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+    .replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => {
+      order.push(token);
+      return FORMAT_TOKENS[token];
+    });
+
+  const match = text.match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+
+  const parts: Record<string, number> = { MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  order.forEach((token, i) => {
+    parts[token] = Number(match[i + 1]);
+  });
+
+  const { YYYY: year, MM: month, DD: day, HH: hour, mm: minute, ss: second } = parts;
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+
+  // Reject overflow such as 31/02 rolling into March
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return null;
+  }
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const datePart = `${year}-${pad(month)}-${pad(day)}`;
+  return order.includes("HH")
+    ? `${datePart}T${pad(hour)}:${pad(minute)}${order.includes("ss") ? `:${pad(second)}` : ""}`
+    : datePart;
+}
@@ -10,6 +10,22 @@ export interface ParsedFileResult {
   fileName: string;
   totalRows: number;
   errors: string[];
+  // Media files that came with the spreadsheet in a ZIP upload
+  media?: MediaBundle;
+}
+
+// Media files of a ZIP upload, kept on the server until they are imported
+export interface MediaBundle {
+  bundleId: string;
+  files: MediaFile[];
+}
+
+export interface MediaFile {
+  path: string; // path inside the ZIP
+  fileName: string;
+  contentType: string;
+  size: number;
+  checksum: string; // SHA-256 of the content, hex
 }
 
 // Validation result from AI
@@ -19,6 +35,25 @@ export interface ValidationResult {
   warnings: ValidationWarning[];
   suggestions: string[];
   mappedFields: FieldMapping[];
+  summary?: ValidationErrorSummary[];
+  validatedRows?: number;
+  // How AI mapping ran; absent when remembered mappings covered every column
+  mappingTier?: MappingTier;
+}
+
+// Budget degradation steps for AI mapping, best first
+export type MappingTier = "primary" | "economy" | "reduced" | "fallback";
+
+// Preview of the AI mapping call validation would make
+export interface AICallEstimate {
+  tier?: MappingTier; // absent when remembered mappings cover every column
+  model?: string;
+  promptTokens: number;
+  maxCompletionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // upper bound: assumes the full completion allowance is used
+  reason?: string; // why AI mapping would be skipped
+  cached?: boolean; // answered from the response cache at no cost
 }
 
 export interface ValidationError {
@@ -26,6 +61,16 @@ export interface ValidationError {
   field: string;
   message: string;
   value?: string | number | boolean | null;
+  rule?: string; // "required", "type", "unique", "transform", "richText", "media" or a Contentful validation such as "size"
+}
+
+// Errors grouped by source column and failed rule
+export interface ValidationErrorSummary {
+  field: string;
+  rule: string;
+  message: string; // first message seen for the group
+  count: number;
+  rows: number[]; // sample of affected rows
 }
 
 export interface ValidationWarning {
@@ -41,6 +86,34 @@ export interface FieldMapping {
   confidence: number;
   transformRequired?: boolean;
   transformDescription?: string;
+  transforms?: TransformStep[]; // applied in order before type coercion
+  // Combines several columns, e.g. "{First Name} {Last Name}"; sourceField is its first column
+  template?: string;
+  reference?: ReferenceLookup;
+  // Cell values name files of the upload's media bundle, imported as assets and linked
+  media?: boolean;
+  // Locale the value is written to, e.g. from a "title (de-DE)" column; defaults to the import locale
+  locale?: string;
+}
+
+// Executable transform applied to a cell value; list-producing steps
+// (split) make later steps apply to each item
+export type TransformStep =
+  | { type: "split"; separator: string }
+  | { type: "join"; separator: string }
+  | { type: "dateFormat"; from: string; to: string } // formats use YYYY, MM, DD, HH, mm, ss
+  | { type: "case"; to: "upper" | "lower" | "title" | "sentence" }
+  | { type: "slugify" }
+  | { type: "regexReplace"; pattern: string; replacement: string; flags?: string }
+  | { type: "lookup"; entries: { from: string; to: string }[]; keepUnmatched: boolean }
+  | { type: "parseNumber"; decimalSeparator: "." | "," };
+
+export type TransformType = TransformStep["type"];
+
+// Resolve a cell value to an existing entry by matching one of its fields
+export interface ReferenceLookup {
+  contentTypeId: string;
+  lookupField: string;
 }
 
 // Contentful entry
@@ -58,8 +131,106 @@ export interface ImportResult {
   created: number;
   updated: number;
   failed: number;
+  // Rows that succeeded after retrying, and API calls retried in total, after
+  // rate limits or transient server errors
+  retried: number;
+  retries: number;
   errors: ImportError[];
   entries: ImportedEntry[];
+  // Checkpointed run this result belongs to; resuming it skips rows already written
+  runId?: string;
+  // Rows an earlier attempt of the run had already written
+  resumedRows?: number;
+  // Entries of the run a rollback would revert, including ones created by rows that then failed
+  rollbackTargets?: number;
+  // Predicted by a dry run; nothing was written
+  dryRun?: boolean;
+  // Found by a dry run of a draft import: checks Contentful only makes when
+  // the entries are published later
+  warnings?: ImportError[];
+}
+
+// Import runs are checkpointed so an interrupted run can be resumed
+export type ImportRunStatus = "running" | "interrupted" | "completed" | "failed" | "rolled-back";
+
+export interface ImportRunSummary {
+  id: string;
+  fileName: string;
+  contentTypeId: string;
+  createdAt: string;
+  updatedAt: string;
+  totalRows: number;
+  written: number;
+  failed: number;
+  status: ImportRunStatus;
+  // False once a ZIP upload's media files have expired; the run can still be rolled back
+  resumable: boolean;
+  // Entries a rollback would still revert
+  rollbackTargets: number;
+}
+
+// What happened to one row of a run. "pending" is recorded before the write,
+// with the ID of the entry about to be created or updated.
+export interface RowCheckpoint {
+  row: number;
+  // "rolled-back" once a rollback has undone the row's entry
+  status: "pending" | "written" | "failed" | "rolled-back";
+  entryId?: string;
+  action?: "created" | "updated";
+  published?: boolean;
+  retries?: number;
+  message?: string;
+  // Entry version after the row was written; a later version means someone edited it since
+  version?: number;
+  // The entry before the import updated it
+  snapshot?: EntrySnapshot;
+}
+
+export interface EntrySnapshot {
+  fields: Record<string, any>;
+  published: boolean;
+}
+
+// An entry written by an import run, with what rolling it back means
+export interface RollbackTarget {
+  entryId: string;
+  action: "created" | "updated";
+  rows: number[];
+  // Version the import left the entry at; unknown if its last write didn't finish
+  version?: number;
+  snapshot?: EntrySnapshot;
+  // The row failed, so the entry may never have been created
+  unconfirmed?: boolean;
+  // Undone by an earlier rollback call
+  rolledBack?: boolean;
+}
+
+// A value of a unique field that an existing entry already holds
+export interface TakenValue {
+  fieldId: string;
+  entryId: string;
+  locale: string;
+  value: string;
+  // The entry's value of the upsert match field, when one was given
+  matchValue?: string;
+}
+
+export interface RollbackIssue {
+  entryId: string;
+  rows: number[];
+  reason: "edited" | "unverified" | "missing" | "failed";
+  message: string;
+}
+
+export interface RollbackResult {
+  runId: string;
+  // Entries the run wrote, over all chunks
+  total: number;
+  // Entries handled so far, including this chunk
+  processed: number;
+  deleted: number;
+  restored: number;
+  issues: RollbackIssue[];
 }
 
 export interface ImportError {
@@ -70,10 +241,11 @@ export interface ImportError {
 
 export interface ImportedEntry {
   row: number;
-  entryId: string;
+  entryId: string; // Empty for entries a dry run would create
   contentType: string;
   action: "created" | "updated";
   status: "draft" | "published";
+  retries?: number; // API calls retried for this row
 }
 
 // Content type definition
@@ -91,15 +263,100 @@ export interface ContentfulField {
   required: boolean;
   localized: boolean;
   validations?: any[];
+  linkType?: string;
+  items?: ContentfulFieldItems;
+}
+
+export interface ContentfulFieldItems {
+  type: string;
+  linkType?: string;
+  validations?: any[];
+}
+
+export interface ContentfulLocale {
+  code: string;
+  name: string;
+  default: boolean;
+  // Locale whose value is delivered when this one is empty
+  fallbackCode: string | null;
+  // Whether required fields may be left empty in this locale
+  optional: boolean;
 }
 
 // Import configuration
+export type ImportMode = "create" | "upsert";
+
 export interface ImportConfig {
   contentTypeId: string;
   locale: string;
   publishImmediately: boolean;
   fieldMappings: FieldMapping[];
   defaultValues?: Record<string, any>;
+  // "upsert" updates entries whose matchField value equals the row's value
+  mode?: ImportMode;
+  matchField?: string;
+  coercionRules?: Partial<CoercionRules>;
+  // Fill other locales of localized text fields with reviewed AI translations
+  translations?: FieldTranslations[];
+}
+
+// Translations of one field's values into one locale, keyed by the source text
+export interface FieldTranslations {
+  field: string;
+  sourceLocale: string;
+  locale: string;
+  values: Record<string, string>;
+}
+
+export interface TranslationRequest {
+  sourceLocale: string;
+  targetLocales: string[];
+  fields: { id: string; name: string; texts: string[] }[];
+}
+
+export interface TranslationResult {
+  translations: FieldTranslations[];
+  notes: string[];
+}
+
+// Rules for turning cell text into typed field values
+export interface CoercionRules {
+  dateFormats: string[]; // e.g. "YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY HH:mm"
+  listSeparators: string[];
+  truthyValues: string[];
+  falsyValues: string[];
+}
+
+// AI usage reporting
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number; // answered from the response cache at no cost
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  key: string; // task name, "provider/model" or YYYY-MM-DD
+}
+
+export interface UsageReport {
+  daily: UsageTotals; // rolling 24 hours
+  monthly: UsageTotals; // rolling 30 days
+  budget: {
+    maxTokens: number;
+    maxCost: number;
+    monthlyMaxTokens: number;
+    monthlyMaxCost: number;
+    warningThreshold: number;
+  };
+  remaining: { tokens: number; cost: number };
+  usedPercent: number; // largest share of any limit used (0-1)
+  warning: boolean; // usedPercent has crossed the warning threshold
+  byTask: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+  byDay: UsageBreakdown[]; // newest first
 }
 
 // Processing status